@@ -0,0 +1,317 @@
+import * as crypto from "crypto"
+import { DeepRequired } from "."
+
+export const aeadAlgorithms = Object.freeze({
+	'aes-256-gcm': { id: 1, ivLength: 12 },
+	'chacha20-poly1305': { id: 2, ivLength: 12 }
+})
+
+export const kdfDigests = Object.freeze(['sha256', 'sha512'] as const)
+
+export type AEADAlgorithm = keyof typeof aeadAlgorithms
+
+export type KeyDerivation = {
+	/**
+	 * The Key Derivation Function to use
+	 * @since 1.13.0
+	*/ type: 'scrypt'
+	/**
+	 * The CPU / Memory Cost (N), must be a power of 2
+	 * @default 16384
+	 * @since 1.13.0
+	*/ cost?: number
+	/**
+	 * The Block Size (r)
+	 * @default 8
+	 * @since 1.13.0
+	*/ blockSize?: number
+	/**
+	 * The Parallelization (p)
+	 * @default 1
+	 * @since 1.13.0
+	*/ parallelization?: number
+} | {
+	/**
+	 * The Key Derivation Function to use
+	 * @since 1.13.0
+	*/ type: 'pbkdf2'
+	/**
+	 * The Amount of Iterations
+	 * @default 600000
+	 * @since 1.13.0
+	*/ iterations?: number
+	/**
+	 * The Digest to use
+	 * @default "sha256"
+	 * @since 1.13.0
+	*/ digest?: typeof kdfDigests[number]
+}
+
+export type KeyDerivationLimits = {
+	/**
+	 * The maximum Amount of PBKDF2 Iterations
+	 * @default 1000000
+	 * @since 1.13.0
+	*/ maxIterations?: number
+	/**
+	 * The maximum scrypt CPU / Memory Cost (N)
+	 * @default 131072
+	 * @since 1.13.0
+	*/ maxCost?: number
+	/**
+	 * The maximum scrypt Parallelization (p)
+	 * @default 16
+	 * @since 1.13.0
+	*/ maxParallelization?: number
+	/**
+	 * The maximum Memory scrypt may use in Bytes (128 * N * r)
+	 * @default 268435456
+	 * @since 1.13.0
+	*/ maxMemory?: number
+}
+
+/**
+ * Ensure Key Derivation Parameters read from untrusted Input stay within `limits`
+ * @throws If the Parameters exceed the Limits
+*/ export function checkKeyDerivation(kdf: DeepRequired<KeyDerivation>, limits?: KeyDerivationLimits): void {
+	const pLimits = {
+		maxIterations: limits?.maxIterations ?? 1000000,
+		maxCost: limits?.maxCost ?? 131072,
+		maxParallelization: limits?.maxParallelization ?? 16,
+		maxMemory: limits?.maxMemory ?? 268435456
+	}
+
+	if (kdf.type === 'pbkdf2') {
+		if (kdf.iterations > pLimits.maxIterations) throw new Error(`Key Derivation exceeds the maximum of ${pLimits.maxIterations} Iterations`)
+	} else {
+		if (kdf.cost > pLimits.maxCost) throw new Error(`Key Derivation exceeds the maximum Cost of ${pLimits.maxCost}`)
+		if (kdf.parallelization > pLimits.maxParallelization) throw new Error(`Key Derivation exceeds the maximum Parallelization of ${pLimits.maxParallelization}`)
+		if (128 * kdf.cost * kdf.blockSize > pLimits.maxMemory) throw new Error(`Key Derivation exceeds the maximum Memory of ${pLimits.maxMemory} Bytes`)
+	}
+}
+
+export function isAEAD(algorithm: string): algorithm is AEADAlgorithm {
+	return Object.prototype.hasOwnProperty.call(aeadAlgorithms, algorithm)
+}
+
+export function aeadAlgorithm(id: number): AEADAlgorithm | null {
+	return (Object.keys(aeadAlgorithms) as AEADAlgorithm[]).find((a) => aeadAlgorithms[a].id === id) ?? null
+}
+
+export function fillKeyDerivation(kdf?: KeyDerivation): DeepRequired<KeyDerivation> {
+	if (kdf?.type === 'pbkdf2') {
+		return {
+			type: 'pbkdf2',
+			iterations: kdf.iterations ?? 600000,
+			digest: kdf.digest ?? 'sha256'
+		}
+	} else {
+		return {
+			type: 'scrypt',
+			cost: kdf?.cost ?? 16384,
+			blockSize: kdf?.blockSize ?? 8,
+			parallelization: kdf?.parallelization ?? 1
+		}
+	}
+}
+
+export function deriveKey(key: crypto.BinaryLike, salt: Buffer, kdf: DeepRequired<KeyDerivation>): Buffer {
+	if (kdf.type === 'scrypt') {
+		return crypto.scryptSync(key, salt, 32, {
+			cost: kdf.cost,
+			blockSize: kdf.blockSize,
+			parallelization: kdf.parallelization,
+			maxmem: 256 * kdf.cost * kdf.blockSize
+		})
+	} else {
+		return crypto.pbkdf2Sync(key, salt, kdf.iterations, 32, kdf.digest)
+	}
+}
+
+export function deriveKeyAsync(key: crypto.BinaryLike, salt: Buffer, length: number, kdf: DeepRequired<KeyDerivation>): Promise<Buffer> {
+	return new Promise((resolve, reject) => {
+		if (kdf.type === 'scrypt') {
+			crypto.scrypt(key, salt, length, {
+				cost: kdf.cost,
+				blockSize: kdf.blockSize,
+				parallelization: kdf.parallelization,
+				maxmem: 256 * kdf.cost * kdf.blockSize
+			}, (err, derived) => {
+				if (err) return reject(err)
+				return resolve(derived)
+			})
+		} else {
+			crypto.pbkdf2(key, salt, kdf.iterations, length, kdf.digest, (err, derived) => {
+				if (err) return reject(err)
+				return resolve(derived)
+			})
+		}
+	})
+}
+
+/**
+ * Key Derivation Layout
+ * 
+ * kdf (1) | params (6)
+*/ export function writeKeyDerivation(kdf: DeepRequired<KeyDerivation>): Buffer {
+	const data = Buffer.alloc(7)
+
+	if (kdf.type === 'scrypt') {
+		data.writeUInt8(1, 0)
+		data.writeUInt32BE(kdf.cost, 1)
+		data.writeUInt8(kdf.blockSize, 5)
+		data.writeUInt8(kdf.parallelization, 6)
+	} else {
+		data.writeUInt8(2, 0)
+		data.writeUInt32BE(kdf.iterations, 1)
+		data.writeUInt8(kdfDigests.indexOf(kdf.digest), 5)
+	}
+
+	return data
+}
+
+export function readKeyDerivation(input: Buffer, offset: number): DeepRequired<KeyDerivation> | null {
+	if (input.length < offset + 7) return null
+
+	switch (input[offset]) {
+		case 1: {
+			return {
+				type: 'scrypt',
+				cost: input.readUInt32BE(offset + 1),
+				blockSize: input[offset + 5],
+				parallelization: input[offset + 6]
+			}
+		}
+
+		case 2: {
+			const digest = kdfDigests[input[offset + 5]]
+			if (!digest) return null
+
+			return {
+				type: 'pbkdf2',
+				iterations: input.readUInt32BE(offset + 1),
+				digest
+			}
+		}
+
+		default: {
+			return null
+		}
+	}
+}
+
+const streamMagic = Buffer.from('RJS', 'ascii'),
+	streamVersion = 1
+
+export const STREAM_TAG_LENGTH = 16,
+	STREAM_MAX_HEADER_LENGTH = streamMagic.length + 2 + 7 + 1 + 255 + 4 + 7
+
+export type StreamLimits = KeyDerivationLimits & {
+	/**
+	 * The maximum plaintext Chunk Size, every Chunk is buffered before it is authenticated
+	 * @default 16777216
+	 * @since 1.13.0
+	*/ maxChunkSize?: number
+}
+
+export type StreamHeader = {
+	algorithm: AEADAlgorithm
+	kdf: DeepRequired<KeyDerivation>
+	salt: Buffer
+	chunkSize: number
+	noncePrefix: Buffer
+	raw: Buffer
+}
+
+/**
+ * Stream Header Layout (version 1)
+ * 
+ * magic (3) | version (1) | algorithm (1) | kdf (7) | salt length (1) | salt | chunk size (4) | nonce prefix (7)
+ * 
+ * every chunk is `ciphertext | tag (16)` and uses the nonce `nonce prefix (7) | chunk index (4) | final (1)`,
+ * the whole header is used as additional authenticated data for every chunk
+*/ export function writeStreamHeader(algorithm: AEADAlgorithm, kdf: DeepRequired<KeyDerivation>, chunkSize: number): StreamHeader {
+	const salt = crypto.randomBytes(16),
+		noncePrefix = crypto.randomBytes(7),
+		size = Buffer.alloc(4)
+
+	size.writeUInt32BE(chunkSize)
+
+	return {
+		algorithm, kdf, salt, chunkSize, noncePrefix,
+		raw: Buffer.concat([
+			streamMagic,
+			Buffer.from([ streamVersion, aeadAlgorithms[algorithm].id ]),
+			writeKeyDerivation(kdf),
+			Buffer.from([ salt.length ]), salt,
+			size, noncePrefix
+		])
+	}
+}
+
+/**
+ * Read a Stream Header, returns `null` if more data is required
+ * @throws If the data is not a valid stream header or its key derivation or chunk size exceeds `limits`
+*/ export function readStreamHeader(input: Buffer, limits?: StreamLimits): StreamHeader | null {
+	if (input.length < streamMagic.length + 2 + 7 + 1) return null
+	if (!input.subarray(0, streamMagic.length).equals(streamMagic) || input[3] !== streamVersion) throw new Error('Invalid Encrypted Stream Header')
+
+	const algorithm = aeadAlgorithm(input[4]),
+		kdf = readKeyDerivation(input, 5)
+	if (!algorithm || !kdf) throw new Error('Invalid Encrypted Stream Header')
+	checkKeyDerivation(kdf, limits)
+
+	let offset = 12
+
+	const saltLength = input[offset++]
+	if (input.length < offset + saltLength + 11) return null
+
+	const salt = input.subarray(offset, offset += saltLength),
+		chunkSize = input.readUInt32BE(offset),
+		noncePrefix = input.subarray(offset + 4, offset + 11)
+
+	if (!chunkSize) throw new Error('Invalid Encrypted Stream Header')
+	if (chunkSize > (limits?.maxChunkSize ?? 16777216)) throw new Error(`Encrypted Stream Chunk Size exceeds the maximum of ${limits?.maxChunkSize ?? 16777216} Bytes`)
+
+	return {
+		algorithm, kdf, salt, chunkSize, noncePrefix,
+		raw: input.subarray(0, offset + 11)
+	}
+}
+
+/**
+ * A Cipher for sealing / opening single chunks of an encrypted stream
+*/ export class ChunkCipher {
+	constructor(
+		private header: StreamHeader,
+		private key: Buffer
+	) {}
+
+	private nonce(index: number, final: boolean): Buffer {
+		if (index > 0xFFFFFFFF) throw new Error('Too many Chunks in Encrypted Stream')
+
+		const nonce = Buffer.alloc(12)
+		this.header.noncePrefix.copy(nonce, 0)
+		nonce.writeUInt32BE(index, 7)
+		nonce[11] = final ? 1 : 0
+
+		return nonce
+	}
+
+	public seal(index: number, data: Buffer, final: boolean): Buffer {
+		const cipher = crypto.createCipheriv(this.header.algorithm as crypto.CipherGCMTypes, this.key, this.nonce(index, final), { authTagLength: STREAM_TAG_LENGTH })
+		cipher.setAAD(this.header.raw)
+
+		return Buffer.concat([ cipher.update(data), cipher.final(), cipher.getAuthTag() ])
+	}
+
+	public open(index: number, data: Buffer, final: boolean): Buffer {
+		if (data.length < STREAM_TAG_LENGTH) throw new Error('Truncated Encrypted Stream')
+
+		const decipher = crypto.createDecipheriv(this.header.algorithm as crypto.CipherGCMTypes, this.key, this.nonce(index, final), { authTagLength: STREAM_TAG_LENGTH })
+		decipher.setAAD(this.header.raw)
+		decipher.setAuthTag(data.subarray(data.length - STREAM_TAG_LENGTH))
+
+		return Buffer.concat([ decipher.update(data.subarray(0, data.length - STREAM_TAG_LENGTH)), decipher.final() ])
+	}
+}
\ No newline at end of file
@@ -1,5 +1,10 @@
 import { IPAddress, isIP } from "./network"
 import * as dns from "dns"
+import * as dgram from "dgram"
+import * as net from "net"
+import * as crypto from "crypto"
+import * as fs from "fs"
+import { ArrayOrNot } from "."
 
 type HttpDNSResponse = {
 	Status: number
@@ -28,6 +33,1519 @@ type HttpDNSResponse = {
 	]
 }
 
+export const recordTypes = Object.freeze({
+	A: 1,
+	NS: 2,
+	CNAME: 5,
+	SOA: 6,
+	PTR: 12,
+	MX: 15,
+	TXT: 16,
+	AAAA: 28,
+	SRV: 33,
+	OPT: 41,
+	DS: 43,
+	RRSIG: 46,
+	DNSKEY: 48,
+	CAA: 257,
+	ANY: 255
+})
+
+export type DNSRecordType = keyof typeof recordTypes
+
+export const responseCodes = Object.freeze(['NOERROR', 'FORMERR', 'SERVFAIL', 'NXDOMAIN', 'NOTIMP', 'REFUSED'] as const)
+
+export type DNSErrorCode = Exclude<typeof responseCodes[number], 'NOERROR'> | 'TIMEOUT' | 'UNAUTHENTICATED' | 'UNKNOWN'
+
+/**
+ * An Error thrown when a DNS Query fails
+ * @example
+ * ```
+ * import { dns } from "@rjweb/utils"
+ * 
+ * try {
+ *   await dns.resolveAll('google.cdom')
+ * } catch (err) {
+ *   if (err instanceof dns.DNSError && err.code === 'NXDOMAIN') console.log('domain does not exist')
+ * }
+ * ```
+ * @since 1.13.0
+*/ export class DNSError extends Error {
+	/**
+	 * Create a new DNS Error
+	 * @since 1.13.0
+	*/ constructor(
+		/** The Reason of the Failure */ public code: DNSErrorCode,
+		/** The Name that was queried */ public hostname: string,
+		message?: string,
+		/** The negative caching TTL in seconds from the SOA Record, if known */ public ttl: number | null = null
+	) {
+		super(message ?? `DNS Query for \`${hostname}\` failed with ${code}`)
+	}
+
+	/**
+	 * Create a DNS Error from a Response Code
+	 * @since 1.13.0
+	*/ public static fromResponseCode(rcode: number, hostname: string, ttl: number | null = null): DNSError {
+		const code = responseCodes[rcode]
+
+		return new DNSError(code && code !== 'NOERROR' ? code : 'UNKNOWN', hostname, undefined, ttl)
+	}
+}
+
+export type DNSRecordData = {
+	A: IPAddress<4>
+	AAAA: IPAddress<6>
+	NS: string
+	CNAME: string
+	PTR: string
+	MX: { priority: number, exchange: string }
+	TXT: string[]
+	SRV: { priority: number, weight: number, port: number, target: string }
+	SOA: { mname: string, rname: string, serial: number, refresh: number, retry: number, expire: number, minimum: number }
+	CAA: { flags: number, tag: string, value: string }
+	OPT: Buffer
+	DS: { keyTag: number, algorithm: number, digestType: number, digest: Buffer }
+	RRSIG: { typeCovered: DNSRecordType | number, algorithm: number, labels: number, originalTtl: number, expiration: number, inception: number, keyTag: number, signerName: string, signature: Buffer }
+	DNSKEY: { flags: number, protocol: number, algorithm: number, publicKey: Buffer }
+	ANY: Buffer
+}
+
+export type DNSRecord = {
+	[Type in DNSRecordType]: {
+		name: string
+		type: Type
+		class: number
+		ttl: number
+		data: DNSRecordData[Type]
+	}
+}[DNSRecordType] | {
+	name: string
+	type: number
+	class: number
+	ttl: number
+	data: Buffer
+}
+
+export type DNSQuestion = {
+	name: string
+	type: DNSRecordType | number
+	class: number
+}
+
+export type DNSFlags = {
+	/** Whether this is a Response */ qr: boolean
+	/** The Operation Code */ opcode: number
+	/** Authoritative Answer */ aa: boolean
+	/** Truncated */ tc: boolean
+	/** Recursion Desired */ rd: boolean
+	/** Recursion Available */ ra: boolean
+	/** Authenticated Data */ ad: boolean
+	/** Checking Disabled */ cd: boolean
+	/** The Response Code */ rcode: number
+}
+
+export type ResolveMode = 'dns' | 'fetch' | 'native'
+
+export type DNSMessage = {
+	id: number
+	flags: DNSFlags
+	questions: DNSQuestion[]
+	answers: DNSRecord[]
+	authorities: DNSRecord[]
+	additionals: DNSRecord[]
+}
+
+function typeName(type: number): DNSRecordType | number {
+	return (Object.keys(recordTypes) as DNSRecordType[]).find((name) => recordTypes[name] === type) ?? type
+}
+
+function typeNumber(type: DNSRecordType | number): number {
+	return typeof type === 'number' ? type : recordTypes[type]
+}
+
+function encodeName(name: string): Buffer {
+	const labels = name.split('.').filter(Boolean),
+		parts: Buffer[] = []
+
+	for (const label of labels) {
+		const data = Buffer.from(label, 'utf8')
+		if (data.length > 63) throw new Error(`Label too long \`${label}\``)
+
+		parts.push(Buffer.from([ data.length ]), data)
+	}
+
+	parts.push(Buffer.from([ 0 ]))
+
+	return Buffer.concat(parts)
+}
+
+function decodeName(data: Buffer, offset: number): [name: string, offset: number] {
+	const labels: string[] = []
+	let end = -1, jumps = 0
+
+	while (true) {
+		if (offset >= data.length) throw new Error('Invalid DNS Message')
+		const length = data[offset]
+
+		if ((length & 0xC0) === 0xC0) {
+			if (++jumps > 64 || offset + 1 >= data.length) throw new Error('Invalid DNS Message')
+			if (end === -1) end = offset + 2
+
+			offset = ((length & 0x3F) << 8) | data[offset + 1]
+			continue
+		}
+
+		offset++
+		if (!length) break
+
+		labels.push(data.toString('utf8', offset, offset + length))
+		offset += length
+	}
+
+	return [ labels.join('.'), end === -1 ? offset : end ]
+}
+
+function u16(...values: number[]): Buffer {
+	const data = Buffer.alloc(values.length * 2)
+	values.forEach((value, i) => data.writeUInt16BE(value, i * 2))
+
+	return data
+}
+
+function u32(...values: number[]): Buffer {
+	const data = Buffer.alloc(values.length * 4)
+	values.forEach((value, i) => data.writeUInt32BE(value >>> 0, i * 4))
+
+	return data
+}
+
+function encodeRecordData(record: DNSRecord): Buffer {
+	switch (record.type) {
+		case "A": return Buffer.from(record.data.rawData)
+		case "AAAA": return u16(...record.data.rawData)
+		case "NS":
+		case "CNAME":
+		case "PTR": return encodeName(record.data)
+		case "MX": return Buffer.concat([ u16(record.data.priority), encodeName(record.data.exchange) ])
+		case "SRV": return Buffer.concat([ u16(record.data.priority, record.data.weight, record.data.port), encodeName(record.data.target) ])
+		case "SOA": return Buffer.concat([ encodeName(record.data.mname), encodeName(record.data.rname), u32(record.data.serial, record.data.refresh, record.data.retry, record.data.expire, record.data.minimum) ])
+		case "CAA": return Buffer.concat([ Buffer.from([ record.data.flags, Buffer.byteLength(record.data.tag) ]), Buffer.from(record.data.tag), Buffer.from(record.data.value) ])
+		case "TXT": return Buffer.concat(record.data.flatMap((text) => {
+			const data = Buffer.from(text, 'utf8'), parts: Buffer[] = []
+
+			for (let i = 0; i < data.length || !parts.length; i += 255) {
+				const part = data.subarray(i, i + 255)
+				parts.push(Buffer.from([ part.length ]), part)
+			}
+
+			return parts
+		}))
+		case "DS": return Buffer.concat([ u16(record.data.keyTag), Buffer.from([ record.data.algorithm, record.data.digestType ]), record.data.digest ])
+		case "DNSKEY": return Buffer.concat([ u16(record.data.flags), Buffer.from([ record.data.protocol, record.data.algorithm ]), record.data.publicKey ])
+		case "RRSIG": return Buffer.concat([
+			u16(typeNumber(record.data.typeCovered)), Buffer.from([ record.data.algorithm, record.data.labels ]),
+			u32(record.data.originalTtl, record.data.expiration, record.data.inception), u16(record.data.keyTag),
+			encodeName(record.data.signerName), record.data.signature
+		])
+		default: return record.data as Buffer
+	}
+}
+
+function decodeRecordData(type: DNSRecordType | number, data: Buffer, offset: number, length: number): DNSRecord['data'] {
+	const end = offset + length
+
+	switch (type) {
+		case "A": {
+			if (length !== 4) throw new Error('Invalid DNS Message')
+			return new IPAddress(new Uint8Array(data.subarray(offset, end))) as IPAddress<4>
+		}
+
+		case "AAAA": {
+			if (length !== 16) throw new Error('Invalid DNS Message')
+
+			const words = new Uint16Array(8)
+			for (let i = 0; i < 8; i++) words[i] = data.readUInt16BE(offset + i * 2)
+
+			return new IPAddress(words) as IPAddress<6>
+		}
+
+		case "NS":
+		case "CNAME":
+		case "PTR": return decodeName(data, offset)[0]
+		case "MX": return { priority: data.readUInt16BE(offset), exchange: decodeName(data, offset + 2)[0] }
+		case "SRV": return { priority: data.readUInt16BE(offset), weight: data.readUInt16BE(offset + 2), port: data.readUInt16BE(offset + 4), target: decodeName(data, offset + 6)[0] }
+		case "SOA": {
+			const [ mname, rnameOffset ] = decodeName(data, offset),
+				[ rname, numbers ] = decodeName(data, rnameOffset)
+
+			return {
+				mname, rname,
+				serial: data.readUInt32BE(numbers),
+				refresh: data.readUInt32BE(numbers + 4),
+				retry: data.readUInt32BE(numbers + 8),
+				expire: data.readUInt32BE(numbers + 12),
+				minimum: data.readUInt32BE(numbers + 16)
+			}
+		}
+
+		case "CAA": {
+			const tagLength = data[offset + 1]
+
+			return {
+				flags: data[offset],
+				tag: data.toString('utf8', offset + 2, offset + 2 + tagLength),
+				value: data.toString('utf8', offset + 2 + tagLength, end)
+			}
+		}
+
+		case "TXT": {
+			const texts: string[] = []
+
+			for (let i = offset; i < end; i += data[i] + 1) {
+				texts.push(data.toString('utf8', i + 1, i + 1 + data[i]))
+			}
+
+			return texts
+		}
+
+		case "DS": return { keyTag: data.readUInt16BE(offset), algorithm: data[offset + 2], digestType: data[offset + 3], digest: Buffer.from(data.subarray(offset + 4, end)) }
+		case "DNSKEY": return { flags: data.readUInt16BE(offset), protocol: data[offset + 2], algorithm: data[offset + 3], publicKey: Buffer.from(data.subarray(offset + 4, end)) }
+		case "RRSIG": {
+			const [ signerName, signature ] = decodeName(data, offset + 18)
+
+			return {
+				typeCovered: typeName(data.readUInt16BE(offset)),
+				algorithm: data[offset + 2],
+				labels: data[offset + 3],
+				originalTtl: data.readUInt32BE(offset + 4),
+				expiration: data.readUInt32BE(offset + 8),
+				inception: data.readUInt32BE(offset + 12),
+				keyTag: data.readUInt16BE(offset + 16),
+				signerName,
+				signature: Buffer.from(data.subarray(signature, end))
+			}
+		}
+
+		default: return Buffer.from(data.subarray(offset, end))
+	}
+}
+
+/**
+ * Encode a DNS Message into the RFC 1035 Wire Format
+ * @example
+ * ```
+ * import { dns } from "@rjweb/utils"
+ * 
+ * dns.encode({
+ *   id: 1,
+ *   flags: { rd: true },
+ *   questions: [{ name: 'example.com', type: 'A' }]
+ * }) // <Buffer 00 01 01 00 00 01 ...>
+ * ```
+ * @since 1.13.0
+ * @supports nodejs
+*/ export function encode(message: {
+	id?: number
+	flags?: Partial<DNSFlags>
+	questions?: (Omit<DNSQuestion, 'class'> & { class?: number })[]
+	answers?: DNSRecord[]
+	authorities?: DNSRecord[]
+	additionals?: DNSRecord[]
+}): Buffer {
+	const flags = message.flags ?? {},
+		sections = [ message.answers ?? [], message.authorities ?? [], message.additionals ?? [] ]
+
+	const header = u16(
+		message.id ?? 0,
+		(flags.qr ? 0x8000 : 0) | ((flags.opcode ?? 0) << 11) | (flags.aa ? 0x400 : 0) | (flags.tc ? 0x200 : 0) | (flags.rd ? 0x100 : 0)
+			| (flags.ra ? 0x80 : 0) | (flags.ad ? 0x20 : 0) | (flags.cd ? 0x10 : 0) | ((flags.rcode ?? 0) & 0xF),
+		message.questions?.length ?? 0,
+		...sections.map((section) => section.length)
+	)
+
+	return Buffer.concat([
+		header,
+		...(message.questions ?? []).flatMap((question) => [ encodeName(question.name), u16(typeNumber(question.type), question.class ?? 1) ]),
+		...sections.flat().flatMap((record) => {
+			const data = encodeRecordData(record)
+
+			return [ encodeName(record.name), u16(typeNumber(record.type), record.class), u32(record.ttl), u16(data.length), data ]
+		})
+	])
+}
+
+/**
+ * Decode a DNS Message from the RFC 1035 Wire Format
+ * @example
+ * ```
+ * import { dns } from "@rjweb/utils"
+ * 
+ * const message = dns.decode(buffer)
+ * 
+ * message.answers // [{ name: 'example.com', type: 'A', class: 1, ttl: 300, data: <IPAddress v4 93.184.216.34> }]
+ * ```
+ * @throws If the Message is malformed
+ * @since 1.13.0
+ * @supports nodejs
+*/ export function decode(data: Buffer): DNSMessage {
+	if (data.length < 12) throw new Error('Invalid DNS Message')
+
+	const flags = data.readUInt16BE(2),
+		counts = [ data.readUInt16BE(4), data.readUInt16BE(6), data.readUInt16BE(8), data.readUInt16BE(10) ]
+
+	let offset = 12
+
+	const questions: DNSQuestion[] = []
+	for (let i = 0; i < counts[0]; i++) {
+		const [ name, end ] = decodeName(data, offset)
+		if (end + 4 > data.length) throw new Error('Invalid DNS Message')
+
+		questions.push({ name, type: typeName(data.readUInt16BE(end)), class: data.readUInt16BE(end + 2) })
+		offset = end + 4
+	}
+
+	const sections: DNSRecord[][] = []
+	for (const count of counts.slice(1)) {
+		const records: DNSRecord[] = []
+
+		for (let i = 0; i < count; i++) {
+			const [ name, end ] = decodeName(data, offset)
+			if (end + 10 > data.length) throw new Error('Invalid DNS Message')
+
+			const type = typeName(data.readUInt16BE(end)),
+				length = data.readUInt16BE(end + 8)
+			if (end + 10 + length > data.length) throw new Error('Invalid DNS Message')
+
+			records.push({
+				name, type,
+				class: data.readUInt16BE(end + 2),
+				ttl: data.readUInt32BE(end + 4),
+				data: decodeRecordData(type, data, end + 10, length)
+			} as DNSRecord)
+
+			offset = end + 10 + length
+		}
+
+		sections.push(records)
+	}
+
+	return {
+		id: data.readUInt16BE(0),
+		flags: {
+			qr: !!(flags & 0x8000),
+			opcode: (flags >> 11) & 0xF,
+			aa: !!(flags & 0x400),
+			tc: !!(flags & 0x200),
+			rd: !!(flags & 0x100),
+			ra: !!(flags & 0x80),
+			ad: !!(flags & 0x20),
+			cd: !!(flags & 0x10),
+			rcode: flags & 0xF
+		},
+		questions,
+		answers: sections[0],
+		authorities: sections[1],
+		additionals: sections[2]
+	}
+}
+
+type DNSServer = {
+	protocol: 'udp' | 'tcp' | 'https'
+	host: string
+	port: number
+	url: string
+}
+
+let configuredServers: string[] | null = null
+
+function parseServer(server: string): DNSServer {
+	if (server.startsWith('https://')) return { protocol: 'https', host: '', port: 443, url: server }
+
+	let protocol: DNSServer['protocol'] = 'udp', rest = server
+	if (server.startsWith('udp://') || server.startsWith('tcp://')) {
+		protocol = server.slice(0, 3) as 'udp' | 'tcp'
+		rest = server.slice(6)
+	}
+
+	let host = rest, port = 53
+	if (rest.startsWith('[')) {
+		const close = rest.indexOf(']')
+		host = rest.slice(1, close)
+		if (rest[close + 1] === ':') port = parseInt(rest.slice(close + 2))
+	} else if (!isIP(rest, 'v6') && rest.includes(':')) {
+		host = rest.slice(0, rest.lastIndexOf(':'))
+		port = parseInt(rest.slice(rest.lastIndexOf(':') + 1))
+	}
+
+	if (isNaN(port) || !isIP(host)) throw new Error(`Invalid DNS Server \`${server}\``)
+
+	return { protocol, host, port, url: server }
+}
+
+/**
+ * Set the DNS Servers used by the native client (`'native'` mode and `dns.query`)
+ * 
+ * Servers can be IPs (`1.1.1.1`, `[::1]:5353`), `udp://` or `tcp://` URLs or DoH URLs (`https://cloudflare-dns.com/dns-query`),
+ * by default the system resolvers are used.
+ * @example
+ * ```
+ * import { dns } from "@rjweb/utils"
+ * 
+ * dns.setServers(['127.0.0.1:5353', 'tcp://10.0.0.53', 'https://cloudflare-dns.com/dns-query'])
+ * ```
+ * @throws If a Server is invalid
+ * @since 1.13.0
+ * @supports nodejs
+*/ export function setServers(servers: string[] | null): void {
+	if (servers) servers.forEach(parseServer)
+
+	configuredServers = servers ? Array.from(servers) : null
+}
+
+/**
+ * Get the DNS Servers used by the native client
+ * @since 1.13.0
+ * @supports nodejs
+*/ export function getServers(): string[] {
+	return configuredServers ? Array.from(configuredServers) : dns.getServers()
+}
+
+function exchangeUDP(server: DNSServer, data: Buffer, id: number, name: string, timeout: number): Promise<Buffer> {
+	return new Promise((resolve, reject) => {
+		const socket = dgram.createSocket(isIP(server.host) === 'v6' ? 'udp6' : 'udp4'),
+			address = new IPAddress(server.host),
+			[ question ] = decode(data).questions
+
+		const timer = setTimeout(() => {
+			socket.close()
+			reject(new DNSError('TIMEOUT', name, `DNS Query to \`${server.url}\` timed out`))
+		}, timeout)
+
+		socket.on('message', (message, rinfo) => {
+			if (message.length < 2 || message.readUInt16BE(0) !== id) return
+			if (rinfo.port !== server.port || !isIP(rinfo.address) || !address.equals(new IPAddress(rinfo.address))) return
+
+			let questions: DNSQuestion[]
+			try {
+				questions = decode(message).questions
+			} catch {
+				return
+			}
+
+			if (questions.length !== 1 || questions[0].name.toLowerCase() !== question.name.toLowerCase()
+				|| questions[0].type !== question.type || questions[0].class !== question.class) return
+
+			clearTimeout(timer)
+			socket.close()
+			resolve(message)
+		})
+
+		socket.on('error', (err) => {
+			clearTimeout(timer)
+			socket.close()
+			reject(err)
+		})
+
+		socket.send(data, server.port, server.host)
+	})
+}
+
+function exchangeTCP(server: DNSServer, data: Buffer, name: string, timeout: number): Promise<Buffer> {
+	return new Promise((resolve, reject) => {
+		let buffered = Buffer.alloc(0)
+
+		const connection = net.createConnection({ host: server.host, port: server.port })
+
+		const timer = setTimeout(() => {
+			connection.destroy()
+			reject(new DNSError('TIMEOUT', name, `DNS Query to \`${server.url}\` timed out`))
+		}, timeout)
+
+		connection
+			.once('connect', () => connection.write(Buffer.concat([ u16(data.length), data ])))
+			.on('data', (chunk) => {
+				buffered = Buffer.concat([ buffered, chunk ])
+
+				if (buffered.length >= 2 && buffered.length >= 2 + buffered.readUInt16BE(0)) {
+					clearTimeout(timer)
+					connection.destroy()
+					resolve(buffered.subarray(2, 2 + buffered.readUInt16BE(0)))
+				}
+			})
+			.once('error', (err) => {
+				clearTimeout(timer)
+				connection.destroy()
+				reject(err)
+			})
+			.once('close', () => {
+				clearTimeout(timer)
+				reject(new Error(`DNS Connection to \`${server.url}\` closed early`))
+			})
+	})
+}
+
+async function exchangeHTTPS(server: DNSServer, data: Buffer, name: string, timeout: number): Promise<Buffer> {
+	const response = await fetch(server.url, {
+		method: 'POST',
+		headers: { 'content-type': 'application/dns-message', accept: 'application/dns-message' },
+		body: data,
+		signal: AbortSignal.timeout(timeout)
+	}).catch((err) => {
+		if (err?.name === 'TimeoutError') throw new DNSError('TIMEOUT', name, `DNS Query to \`${server.url}\` timed out`)
+		throw err
+	})
+
+	if (!response.ok) throw new Error(`DNS Query to \`${server.url}\` failed with Status ${response.status}`)
+
+	return Buffer.from(await response.arrayBuffer())
+}
+
+/**
+ * Send a DNS Query using the native client
+ * 
+ * The configured Servers (see `dns.setServers`) are tried in order, UDP responses that are truncated are retried using TCP.
+ * @example
+ * ```
+ * import { dns } from "@rjweb/utils"
+ * 
+ * const message = await dns.query('example.com', 'A', { servers: ['127.0.0.1:5353'] })
+ * 
+ * message.flags.rcode // 0
+ * message.answers // [{ name: 'example.com', type: 'A', class: 1, ttl: 300, data: <IPAddress v4 93.184.216.34> }]
+ * ```
+ * @throws {DNSError} If no Server responded in time (`TIMEOUT`)
+ * @since 1.13.0
+ * @supports nodejs
+*/ export async function query(name: string, type: DNSRecordType | number, options?: {
+	/**
+	 * The Servers to query
+	 * @default dns.getServers()
+	 * @since 1.13.0
+	*/ servers?: string[]
+	/**
+	 * The timeout for each Server in ms
+	 * @default 5000
+	 * @since 1.13.0
+	*/ timeout?: number
+	/**
+	 * Whether to request recursion
+	 * @default true
+	 * @since 1.13.0
+	*/ recursion?: boolean
+	/**
+	 * Whether to request DNSSEC Records (sets the EDNS `DO` bit)
+	 * @default false
+	 * @since 1.13.0
+	*/ dnssec?: boolean
+	/**
+	 * Whether to disable DNSSEC checking on the Server (sets the `CD` flag)
+	 * @default false
+	 * @since 1.13.0
+	*/ checkingDisabled?: boolean
+}): Promise<DNSMessage> {
+	const pOptions = {
+		servers: (options?.servers ?? getServers()).map(parseServer),
+		timeout: options?.timeout ?? 5000,
+		recursion: options?.recursion ?? true,
+		dnssec: options?.dnssec ?? false,
+		checkingDisabled: options?.checkingDisabled ?? false
+	}
+
+	if (!pOptions.servers.length) throw new Error('No DNS Servers configured')
+
+	let lastError: unknown = null
+	for (const server of pOptions.servers) {
+		const id = server.protocol === 'https' ? 0 : crypto.randomInt(0, 0x10000),
+			data = encode({
+				id,
+				flags: { rd: pOptions.recursion, ad: true, cd: pOptions.checkingDisabled },
+				questions: [{ name, type }],
+				additionals: [{ name: '', type: 'OPT', class: 1232, ttl: pOptions.dnssec ? 0x8000 : 0, data: Buffer.alloc(0) }]
+			})
+
+		try {
+			let response: DNSMessage
+
+			switch (server.protocol) {
+				case "udp": {
+					response = decode(await exchangeUDP(server, data, id, name, pOptions.timeout))
+					if (response.flags.tc) response = decode(await exchangeTCP(server, data, name, pOptions.timeout))
+
+					break
+				}
+
+				case "tcp": {
+					response = decode(await exchangeTCP(server, data, name, pOptions.timeout))
+					break
+				}
+
+				case "https": {
+					response = decode(await exchangeHTTPS(server, data, name, pOptions.timeout))
+					break
+				}
+			}
+
+			if (response.id !== id) throw new Error('DNS Response ID Mismatch')
+
+			return response
+		} catch (err) {
+			lastError = err
+		}
+	}
+
+	throw lastError
+}
+
+const rootTrustAnchors = Object.freeze([
+	'20326 8 2 E06D44B80B8F1D39A95C0B0D7C65D08458E880409BBC683457104237C7F8EC8D',
+	'38696 8 2 683D2D0ACB8C9B712A1948B27F741219298D0A450D612C483AF444A4C0FB2B16'
+])
+
+let trustAnchors = rootTrustAnchors.map(parseDS)
+
+function parseDS(ds: string): DNSRecordData['DS'] {
+	const [ keyTag, algorithm, digestType, ...digest ] = ds.trim().split(/\s+/),
+		pDigest = Buffer.from(digest.join(''), 'hex')
+
+	if (!pDigest.length || [ keyTag, algorithm, digestType ].some((value) => !/^\d+$/.test(value ?? ''))) throw new Error(`Invalid Trust Anchor \`${ds}\``)
+
+	return { keyTag: parseInt(keyTag), algorithm: parseInt(algorithm), digestType: parseInt(digestType), digest: pDigest }
+}
+
+/**
+ * Set the Trust Anchors (DS Records of the Root Zone) used for DNSSEC validation, `null` restores the IANA Root Anchors
+ * @example
+ * ```
+ * import { dns } from "@rjweb/utils"
+ * 
+ * dns.setTrustAnchors(['20326 8 2 E06D44B80B8F1D39A95C0B0D7C65D08458E880409BBC683457104237C7F8EC8D'])
+ * ```
+ * @throws If a Trust Anchor is invalid
+ * @since 1.13.0
+ * @supports nodejs
+*/ export function setTrustAnchors(anchors: string[] | null): void {
+	trustAnchors = (anchors ?? rootTrustAnchors).map(parseDS)
+}
+
+/**
+ * Get the Trust Anchors used for DNSSEC validation
+ * @since 1.13.0
+ * @supports nodejs
+*/ export function getTrustAnchors(): string[] {
+	return trustAnchors.map((ds) => `${ds.keyTag} ${ds.algorithm} ${ds.digestType} ${ds.digest.toString('hex').toUpperCase()}`)
+}
+
+const signatureDigests: Record<number, string | null> = { 8: 'sha256', 10: 'sha512', 13: 'sha256', 14: 'sha384', 15: null },
+	dsDigests: Record<number, string> = { 1: 'sha1', 2: 'sha256', 4: 'sha384' }
+
+function isSubdomain(name: string, zone: string): boolean {
+	return !zone || name === zone || name.endsWith(`.${zone}`)
+}
+
+/**
+ * Calculate the Key Tag of a DNSKEY (RFC 4034 Appendix B)
+*/ function keyTag(key: DNSRecordData['DNSKEY']): number {
+	const data = encodeRecordData({ name: '', type: 'DNSKEY', class: 1, ttl: 0, data: key })
+
+	let tag = 0
+	for (let i = 0; i < data.length; i++) tag += i & 1 ? data[i] : data[i] << 8
+
+	return (tag + ((tag >> 16) & 0xFFFF)) & 0xFFFF
+}
+
+function publicKey(key: DNSRecordData['DNSKEY']): crypto.KeyObject | null {
+	try {
+		switch (key.algorithm) {
+			case 8:
+			case 10: {
+				const long = key.publicKey[0] === 0,
+					length = long ? key.publicKey.readUInt16BE(1) : key.publicKey[0],
+					offset = long ? 3 : 1
+
+				return crypto.createPublicKey({ format: 'jwk', key: {
+					kty: 'RSA',
+					e: key.publicKey.subarray(offset, offset + length).toString('base64url'),
+					n: key.publicKey.subarray(offset + length).toString('base64url')
+				} })
+			}
+
+			case 13:
+			case 14: {
+				const half = key.publicKey.length / 2
+
+				return crypto.createPublicKey({ format: 'jwk', key: {
+					kty: 'EC', crv: key.algorithm === 13 ? 'P-256' : 'P-384',
+					x: key.publicKey.subarray(0, half).toString('base64url'),
+					y: key.publicKey.subarray(half).toString('base64url')
+				} })
+			}
+
+			case 15: return crypto.createPublicKey({ format: 'jwk', key: { kty: 'OKP', crv: 'Ed25519', x: key.publicKey.toString('base64url') } })
+			default: return null
+		}
+	} catch {
+		return null
+	}
+}
+
+/**
+ * Check whether a DS Record authenticates a DNSKEY of a Zone
+*/ function matchesDS(zone: string, key: DNSRecordData['DNSKEY'], ds: DNSRecordData['DS']): boolean {
+	const digest = dsDigests[ds.digestType]
+	if (!digest || ds.algorithm !== key.algorithm || ds.keyTag !== keyTag(key)) return false
+
+	return crypto.createHash(digest)
+		.update(encodeName(zone))
+		.update(encodeRecordData({ name: zone, type: 'DNSKEY', class: 1, ttl: 0, data: key }))
+		.digest().equals(ds.digest)
+}
+
+/**
+ * Encode the Record Data in canonical form (RFC 4034 Section 6.2)
+*/ function canonicalData(record: DNSRecord): Buffer {
+	switch (record.type) {
+		case "NS":
+		case "CNAME":
+		case "PTR": return encodeRecordData({ ...record, data: record.data.toLowerCase() })
+		case "MX": return encodeRecordData({ ...record, data: { ...record.data, exchange: record.data.exchange.toLowerCase() } })
+		case "SRV": return encodeRecordData({ ...record, data: { ...record.data, target: record.data.target.toLowerCase() } })
+		case "SOA": return encodeRecordData({ ...record, data: { ...record.data, mname: record.data.mname.toLowerCase(), rname: record.data.rname.toLowerCase() } })
+		default: return encodeRecordData(record)
+	}
+}
+
+/**
+ * Verify the Signature of a RRset using a DNSKEY
+*/ function verifyRRSIG(rrset: DNSRecord[], signature: DNSRecordData['RRSIG'], key: DNSRecordData['DNSKEY']): boolean {
+	const now = Math.floor(Date.now() / 1000),
+		digest = signatureDigests[signature.algorithm],
+		pKey = publicKey(key)
+
+	if (!pKey || digest === undefined || signature.inception > now || signature.expiration < now) return false
+	if (signature.algorithm !== key.algorithm || signature.keyTag !== keyTag(key) || key.protocol !== 3 || !(key.flags & 0x100)) return false
+
+	const labels = rrset[0].name.toLowerCase().split('.').filter(Boolean),
+		owner = labels.length > signature.labels ? [ '*', ...labels.slice(labels.length - signature.labels) ].join('.') : labels.join('.')
+
+	const records = Array.from(new Set(rrset.map((record) => canonicalData(record).toString('hex'))))
+		.map((data) => Buffer.from(data, 'hex'))
+		.sort(Buffer.compare)
+
+	const data = Buffer.concat([
+		encodeRecordData({ name: '', type: 'RRSIG', class: 1, ttl: 0, data: { ...signature, signerName: signature.signerName.toLowerCase(), signature: Buffer.alloc(0) } }),
+		...records.flatMap((record) => [ encodeName(owner), u16(typeNumber(rrset[0].type), rrset[0].class), u32(signature.originalTtl), u16(record.length), record ])
+	])
+
+	try {
+		return crypto.verify(digest, data, key.algorithm === 13 || key.algorithm === 14 ? { key: pKey, dsaEncoding: 'ieee-p1363' } : pKey, signature.signature)
+	} catch {
+		return false
+	}
+}
+
+/**
+ * Validate all Answers of a Message by following the chain of trust (DNSKEY, DS) up to the Trust Anchors
+*/ async function validateMessage(message: DNSMessage): Promise<boolean> {
+	const zones = new Map<string, Promise<DNSRecordData['DNSKEY'][] | null>>()
+
+	const signatures = (records: DNSRecord[], name: string, type: DNSRecordType | number) => records
+		.filter((record) => record.type === 'RRSIG' && record.name.toLowerCase() === name && record.data.typeCovered === type)
+		.map((record) => record.data as DNSRecordData['RRSIG'])
+
+	const verifyRRset = async(rrset: DNSRecord[], rrsigs: DNSRecordData['RRSIG'][]): Promise<boolean> => {
+		const owner = rrset[0].name.toLowerCase()
+
+		for (const rrsig of rrsigs) {
+			const signer = rrsig.signerName.toLowerCase()
+			if (!isSubdomain(owner, signer) || (rrset[0].type === 'DS' && signer === owner)) continue
+
+			const keys = await zoneKeys(signer)
+			if (keys?.some((key) => verifyRRSIG(rrset, rrsig, key))) return true
+		}
+
+		return false
+	}
+
+	const zoneKeys = (zone: string) => {
+		if (!zones.has(zone)) zones.set(zone, (async() => {
+			const response = await query(zone, 'DNSKEY', { dnssec: true, checkingDisabled: true }),
+				keys = response.answers.filter((record) => record.type === 'DNSKEY' && record.name.toLowerCase() === zone)
+			if (!keys.length) return null
+
+			let anchors = trustAnchors
+			if (zone) {
+				const dsResponse = await query(zone, 'DS', { dnssec: true, checkingDisabled: true }),
+					ds = dsResponse.answers.filter((record) => record.type === 'DS' && record.name.toLowerCase() === zone)
+				if (!ds.length || !await verifyRRset(ds, signatures(dsResponse.answers, zone, 'DS'))) return null
+
+				anchors = ds.map((record) => record.data as DNSRecordData['DS'])
+			}
+
+			const rrsigs = signatures(response.answers, zone, 'DNSKEY'),
+				entries = keys.map((record) => record.data as DNSRecordData['DNSKEY']).filter((key) => anchors.some((ds) => matchesDS(zone, key, ds)))
+
+			if (!entries.some((key) => rrsigs.some((rrsig) => verifyRRSIG(keys, rrsig, key)))) return null
+
+			return keys.map((record) => record.data as DNSRecordData['DNSKEY'])
+		})().catch(() => null))
+
+		return zones.get(zone)!
+	}
+
+	const rrsets = new Map<string, DNSRecord[]>()
+	for (const record of message.answers) {
+		if (record.type === 'RRSIG' || record.type === 'OPT') continue
+
+		const key = `${record.name.toLowerCase()} ${typeNumber(record.type)}`
+		rrsets.set(key, (rrsets.get(key) ?? []).concat(record))
+	}
+
+	if (!rrsets.size) return false
+
+	for (const rrset of rrsets.values()) {
+		if (!await verifyRRset(rrset, signatures(message.answers, rrset[0].name.toLowerCase(), rrset[0].type))) return false
+	}
+
+	return true
+}
+
+export type LookupType = 'A' | 'AAAA' | 'MX' | 'TXT' | 'SRV' | 'CNAME' | 'NS' | 'SOA' | 'CAA' | 'PTR'
+
+export type LookupData = Omit<DNSRecordData, 'TXT' | 'OPT' | 'ANY'> & {
+	TXT: string
+}
+
+export type LookupRecord<Type extends LookupType = LookupType> = {
+	[T in Type]: {
+		/** The Name this Record belongs to */ name: string
+		/** The Type of the Record */ type: T
+		/** The Time to live in seconds, `0` if unknown */ ttl: number
+		/** The parsed Record Data */ data: LookupData[T]
+		/** Whether the Answer was authenticated using DNSSEC */ authenticated: boolean
+	}
+}[Type]
+
+export type LookupOptions = {
+	/**
+	 * Whether to fail with a `dns.DNSError` (`UNAUTHENTICATED`) if returned Records were not authenticated using DNSSEC,
+	 * empty Answers are not checked as denial of existence (NSEC / NSEC3) is not validated
+	 * @default false
+	 * @since 1.13.0
+	*/ requireAuthenticated?: boolean
+	/**
+	 * Whether to validate the DNSSEC chain of trust (RRSIG, DNSKEY, DS) against the Trust Anchors (see `dns.setTrustAnchors`)
+	 * instead of trusting the `AD` flag of the Server, only supported in `'native'` mode
+	 * @default false
+	 * @since 1.13.0
+	*/ validate?: boolean
+}
+
+function trimDot(name: string): string {
+	return name.endsWith('.') ? name.slice(0, -1) : name
+}
+
+/**
+ * Parse the presentation format of a Record (as returned by DNS-over-HTTPS JSON)
+*/ function parsePresentation<Type extends LookupType>(type: Type, data: string): LookupData[Type] {
+	const parts = data.trim().split(/\s+/)
+
+	switch (type as LookupType) {
+		case "A":
+		case "AAAA": return new IPAddress(data) as LookupData[Type]
+		case "NS":
+		case "CNAME":
+		case "PTR": return trimDot(data) as LookupData[Type]
+		case "MX": return { priority: parseInt(parts[0]), exchange: trimDot(parts[1]) } as LookupData[Type]
+		case "SRV": return { priority: parseInt(parts[0]), weight: parseInt(parts[1]), port: parseInt(parts[2]), target: trimDot(parts[3]) } as LookupData[Type]
+		case "SOA": return {
+			mname: trimDot(parts[0]), rname: trimDot(parts[1]),
+			serial: parseInt(parts[2]), refresh: parseInt(parts[3]), retry: parseInt(parts[4]), expire: parseInt(parts[5]), minimum: parseInt(parts[6])
+		} as LookupData[Type]
+		case "TXT": {
+			const strings = Array.from(data.matchAll(/"((?:[^"\\]|\\.)*)"/g), (match) => match[1].replace(/\\(.)/g, '$1'))
+
+			return (strings.length ? strings.join('') : data) as LookupData[Type]
+		}
+
+		case "CAA": {
+			if (parts[0] === '\\#') {
+				const raw = Buffer.from(parts.slice(2).join(''), 'hex')
+
+				return decodeRecordData('CAA', raw, 0, raw.length) as LookupData[Type]
+			}
+
+			return { flags: parseInt(parts[0]), tag: parts[1], value: parts.slice(2).join(' ').replace(/^"|"$/g, '') } as LookupData[Type]
+		}
+	}
+}
+
+type LookupResult<Type extends LookupType> = {
+	records: LookupRecord<Type>[]
+	/** The negative caching TTL from the SOA Record of the Authority Section (RFC 2308) */ negativeTtl: number | null
+	authenticated: boolean
+}
+
+async function lookupFetch<Type extends LookupType>(name: string, type: Type): Promise<LookupResult<Type>> {
+	const result = await fetch(`https://cloudflare-dns.com/dns-query?name=${name}&type=${type}`, { headers: { accept: 'application/dns-json' }, signal: AbortSignal.timeout(5000) })
+		.then(res => res.json() as Promise<HttpDNSResponse>)
+		.catch((err) => {
+			if (err?.name === 'TimeoutError') throw new DNSError('TIMEOUT', name)
+			throw err
+		})
+
+	const soa = result.Authority?.find((record) => record.type === recordTypes.SOA),
+		negativeTtl = soa ? Math.min(soa.TTL, parsePresentation('SOA', soa.data).minimum) : null
+
+	if (result.Status !== 0) throw DNSError.fromResponseCode(result.Status, name, negativeTtl)
+
+	return {
+		records: (result.Answer ?? [])
+			.filter((answer) => answer.type === recordTypes[type])
+			.map((answer) => ({ name: trimDot(answer.name), type, ttl: answer.TTL, data: parsePresentation(type, answer.data), authenticated: result.AD }) as LookupRecord<Type>),
+		negativeTtl,
+		authenticated: result.AD
+	}
+}
+
+async function lookupNative<Type extends LookupType>(name: string, type: Type, validate: boolean): Promise<LookupResult<Type>> {
+	const result = await query(name, type, { dnssec: validate, checkingDisabled: validate }),
+		soa = result.authorities.find((record) => record.type === 'SOA'),
+		negativeTtl = soa?.type === 'SOA' ? Math.min(soa.ttl, soa.data.minimum) : null
+
+	if (result.flags.rcode !== 0) throw DNSError.fromResponseCode(result.flags.rcode, name, negativeTtl)
+
+	const authenticated = validate ? await validateMessage(result) : result.flags.ad
+
+	return {
+		records: result.answers
+			.filter((answer) => answer.type === type)
+			.map((answer) => ({
+				name: answer.name, type, ttl: answer.ttl,
+				data: type === 'TXT' ? (answer.data as string[]).join('') : answer.data,
+				authenticated
+			}) as LookupRecord<Type>),
+		negativeTtl,
+		authenticated
+	}
+}
+
+async function lookupSystem<Type extends LookupType>(name: string, type: Type): Promise<LookupResult<Type>> {
+	return { records: await lookupSystemRecords(name, type), negativeTtl: null, authenticated: false }
+}
+
+async function lookupSystemRecords<Type extends LookupType>(name: string, type: Type): Promise<LookupRecord<Type>[]> {
+	const record = (ttl: number, data: LookupData[LookupType]) => ({ name, type, ttl, data, authenticated: false }) as LookupRecord<Type>
+
+	try {
+		switch (type as LookupType) {
+			case "A": return (await dns.promises.resolve4(name, { ttl: true })).map((r) => record(r.ttl, new IPAddress(r.address) as IPAddress<4>))
+			case "AAAA": return (await dns.promises.resolve6(name, { ttl: true })).map((r) => record(r.ttl, new IPAddress(r.address) as IPAddress<6>))
+			case "MX": return (await dns.promises.resolveMx(name)).map((r) => record(0, { priority: r.priority, exchange: r.exchange }))
+			case "TXT": return (await dns.promises.resolveTxt(name)).map((r) => record(0, r.join('')))
+			case "SRV": return (await dns.promises.resolveSrv(name)).map((r) => record(0, { priority: r.priority, weight: r.weight, port: r.port, target: r.name }))
+			case "NS": return (await dns.promises.resolveNs(name)).map((r) => record(0, r))
+			case "CNAME": return (await dns.promises.resolveCname(name)).map((r) => record(0, r))
+			case "PTR": return (await dns.promises.resolvePtr(name)).map((r) => record(0, r))
+			case "CAA": return (await dns.promises.resolveCaa(name)).map((r) => {
+				const tag = Object.keys(r).find((key) => key !== 'critical')!
+
+				return record(0, { flags: r.critical, tag, value: String(r[tag as keyof typeof r]) })
+			})
+
+			case "SOA": {
+				const r = await dns.promises.resolveSoa(name)
+
+				return [ record(0, { mname: r.nsname, rname: r.hostmaster, serial: r.serial, refresh: r.refresh, retry: r.retry, expire: r.expire, minimum: r.minttl }) ]
+			}
+		}
+	} catch (err: any) {
+		switch (err?.code) {
+			case dns.NODATA: return []
+			case dns.NOTFOUND: throw new DNSError('NXDOMAIN', name)
+			case dns.SERVFAIL: throw new DNSError('SERVFAIL', name)
+			case dns.REFUSED: throw new DNSError('REFUSED', name)
+			case dns.NOTIMP: throw new DNSError('NOTIMP', name)
+			case dns.FORMERR: throw new DNSError('FORMERR', name)
+			case dns.TIMEOUT: throw new DNSError('TIMEOUT', name)
+			default: throw err
+		}
+	}
+}
+
+export type CacheStats = {
+	/** Lookups answered from fresh Entries */ hits: number
+	/** Lookups that had to query a Server */ misses: number
+	/** Lookups answered from expired Entries while revalidating */ stale: number
+	/** Lookups answered from negative Entries (`NXDOMAIN` or no Records) */ negative: number
+	/** Lookups that joined an already running Query */ coalesced: number
+	/** Entries removed because the Cache was full */ evictions: number
+	/** The current Amount of Entries */ size: number
+}
+
+type CacheEntry = {
+	value: unknown
+	error: DNSError | null
+	expires: number
+	staleUntil: number
+}
+
+/**
+ * A TTL aware DNS Cache
+ * 
+ * Entries expire after the TTL of their Records, negative Answers are cached using the SOA minimum (RFC 2308).
+ * Expired Entries are still served for `staleWhileRevalidate` seconds while being refreshed in the background
+ * and concurrent Lookups of the same Name share a single Query.
+ * @example
+ * ```
+ * import { dns } from "@rjweb/utils"
+ * 
+ * dns.setCache(new dns.Cache({ maxEntries: 10000 }))
+ * 
+ * await dns.resolve('google.com') // queries the server
+ * await dns.resolve('google.com') // answered from the cache
+ * 
+ * dns.getCache()?.stats() // { hits: 2, misses: 2, stale: 0, negative: 0, coalesced: 0, evictions: 0, size: 2 }
+ * ```
+ * @since 1.13.0
+ * @supports nodejs, browser
+*/ export class Cache {
+	private entries = new Map<string, CacheEntry>()
+	private pending = new Map<string, Promise<unknown>>()
+	private counters: Omit<CacheStats, 'size'> = { hits: 0, misses: 0, stale: 0, negative: 0, coalesced: 0, evictions: 0 }
+	private options: Required<NonNullable<ConstructorParameters<typeof Cache>[0]>>
+
+	/**
+	 * Create a new DNS Cache
+	 * @since 1.13.0
+	*/ constructor(options?: {
+		/**
+		 * The maximum Amount of Entries, the least recently used Entries are evicted first
+		 * @default 1000
+		 * @since 1.13.0
+		*/ maxEntries?: number
+		/**
+		 * How long expired Entries may be served while refreshing them (seconds)
+		 * @default 30
+		 * @since 1.13.0
+		*/ staleWhileRevalidate?: number
+		/**
+		 * The negative caching TTL if no SOA Record is available (seconds)
+		 * @default 30
+		 * @since 1.13.0
+		*/ negativeTtl?: number
+		/**
+		 * The minimum TTL of Entries (seconds)
+		 * @default 0
+		 * @since 1.13.0
+		*/ minTtl?: number
+		/**
+		 * The maximum TTL of Entries (seconds)
+		 * @default 86400
+		 * @since 1.13.0
+		*/ maxTtl?: number
+	}) {
+		this.options = {
+			maxEntries: options?.maxEntries ?? 1000,
+			staleWhileRevalidate: options?.staleWhileRevalidate ?? 30,
+			negativeTtl: options?.negativeTtl ?? 30,
+			minTtl: options?.minTtl ?? 0,
+			maxTtl: options?.maxTtl ?? 86400
+		}
+	}
+
+	/**
+	 * Get a Value from the Cache or load it, `load` returns the Value and its TTL in seconds
+	 * 
+	 * `dns.DNSError`s with the `NXDOMAIN` code are cached as well and rethrown on hits.
+	 * @since 1.13.0
+	*/ public async fetch<Value>(key: string, load: () => Promise<{ value: Value, ttl: number | null, negative?: boolean }>): Promise<Value> {
+		const entry = this.entries.get(key),
+			now = Date.now()
+
+		if (entry && entry.staleUntil > now) {
+			this.entries.delete(key)
+			this.entries.set(key, entry)
+
+			if (entry.expires > now) this.counters.hits++
+			else {
+				this.counters.stale++
+				this.load(key, load).catch(() => null)
+			}
+
+			if (entry.error) {
+				this.counters.negative++
+				throw entry.error
+			}
+
+			return entry.value as Value
+		}
+
+		if (this.pending.has(key)) this.counters.coalesced++
+		else this.counters.misses++
+
+		return this.load(key, load)
+	}
+
+	private load<Value>(key: string, load: () => Promise<{ value: Value, ttl: number | null, negative?: boolean }>): Promise<Value> {
+		const running = this.pending.get(key)
+		if (running) return running as Promise<Value>
+
+		const promise = load()
+			.then(({ value, ttl, negative }) => {
+				this.store(key, { value, error: null }, negative ? ttl ?? this.options.negativeTtl : ttl)
+
+				return value
+			}, (err) => {
+				if (err instanceof DNSError && err.code === 'NXDOMAIN') this.store(key, { value: null, error: err }, err.ttl ?? this.options.negativeTtl)
+
+				throw err
+			})
+			.finally(() => this.pending.delete(key))
+
+		this.pending.set(key, promise)
+
+		return promise
+	}
+
+	private store(key: string, entry: Pick<CacheEntry, 'value' | 'error'>, ttl: number | null) {
+		const seconds = Math.min(Math.max(ttl ?? 0, this.options.minTtl), this.options.maxTtl)
+
+		this.entries.delete(key)
+		if (seconds <= 0 || this.options.maxEntries <= 0) return
+
+		const now = Date.now()
+		this.entries.set(key, {
+			...entry,
+			expires: now + seconds * 1000,
+			staleUntil: now + (seconds + this.options.staleWhileRevalidate) * 1000
+		})
+
+		for (const oldest of this.entries.keys()) {
+			if (this.entries.size <= this.options.maxEntries) break
+
+			this.entries.delete(oldest)
+			this.counters.evictions++
+		}
+	}
+
+	/**
+	 * Remove an Entry from the Cache
+	 * @since 1.13.0
+	*/ public delete(key: string): boolean {
+		return this.entries.delete(key)
+	}
+
+	/**
+	 * Remove all Entries from the Cache and reset the Stats
+	 * @since 1.13.0
+	*/ public clear(): this {
+		this.entries.clear()
+		this.counters = { hits: 0, misses: 0, stale: 0, negative: 0, coalesced: 0, evictions: 0 }
+
+		return this
+	}
+
+	/**
+	 * Get the current Amount of Entries
+	 * @since 1.13.0
+	*/ public get size(): number {
+		return this.entries.size
+	}
+
+	/**
+	 * Get the Stats of this Cache
+	 * @since 1.13.0
+	*/ public stats(): CacheStats {
+		return { ...this.counters, size: this.entries.size }
+	}
+}
+
+let cache: Cache | null = new Cache()
+
+/**
+ * Set the Cache used by `dns.resolve`, `dns.resolveAll`, `dns.reverse` and `dns.lookup`, `null` disables caching
+ * @example
+ * ```
+ * import { dns } from "@rjweb/utils"
+ * 
+ * dns.setCache(new dns.Cache({ maxEntries: 100, staleWhileRevalidate: 0 }))
+ * dns.setCache(null)
+ * ```
+ * @since 1.13.0
+ * @supports nodejs, browser
+*/ export function setCache(newCache: Cache | null): void {
+	cache = newCache
+}
+
+/**
+ * Get the Cache used by `dns.resolve`, `dns.resolveAll`, `dns.reverse` and `dns.lookup`
+ * @since 1.13.0
+ * @supports nodejs, browser
+*/ export function getCache(): Cache | null {
+	return cache
+}
+
+async function lookupMode<Type extends LookupType>(name: string, type: Type, mode: ResolveMode, options?: LookupOptions): Promise<LookupRecord<Type>[]> {
+	if (options?.validate && mode !== 'native') throw new Error('DNSSEC validation is only supported in native mode')
+
+	const validate = options?.validate ?? false
+
+	const load = async() => {
+		const result = await (mode === 'dns' ? lookupSystem(name, type) : mode === 'native' ? lookupNative(name, type, validate) : lookupFetch(name, type))
+
+		return result.records.length
+			? { value: result, ttl: Math.min(...result.records.map((record) => record.ttl)) }
+			: { value: result, ttl: result.negativeTtl, negative: true }
+	}
+
+	const result = cache ? await cache.fetch(`${mode}:${type}:${name.toLowerCase()}${validate ? ':validated' : ''}`, load) : (await load()).value
+	if (options?.requireAuthenticated && result.records.length && !result.authenticated) throw new DNSError('UNAUTHENTICATED', name, `DNS Answer for \`${name}\` was not authenticated`)
+
+	return result.records
+}
+
+/**
+ * Look up Records of a specific Type
+ * 
+ * TXT Records are joined into a single string, CNAME lookups follow the whole chain and return
+ * every hop in order. The `'dns'` mode does not expose TTLs for non address Records, these will be `0`.
+ * @example
+ * ```
+ * import { dns } from "@rjweb/utils"
+ * 
+ * await dns.lookup('google.com', 'MX') // [{ name: 'google.com', type: 'MX', ttl: 300, data: { priority: 10, exchange: 'smtp.google.com' } }]
+ * await dns.lookup('google.com', 'TXT') // [{ name: 'google.com', type: 'TXT', ttl: 3600, data: 'v=spf1 include:_spf.google.com ~all' }, ...]
+ * await dns.lookup('www.github.com', 'CNAME') // [{ name: 'www.github.com', type: 'CNAME', ttl: 3600, data: 'github.com' }]
+ * await dns.lookup('google.cdom', 'A') // []
+ * await dns.lookup('example.com', 'A', 'native', { validate: true, requireAuthenticated: true }) // [{ name: 'example.com', type: 'A', ttl: 300, data: <IPAddress v4 93.184.215.14>, authenticated: true }]
+ * ```
+ * @throws {DNSError} If the Lookup fails for any other reason than the Name or Records not existing
+ * @since 1.13.0
+ * @supports nodejs, browser
+ * @default mode = 'fetch'
+*/ export async function lookup<Type extends LookupType>(name: string, type: Type, mode: ResolveMode = 'fetch', options?: LookupOptions): Promise<LookupRecord<Type>[]> {
+	const single = (name: string) => lookupMode(name, type, mode, options).catch((err) => {
+		if (err instanceof DNSError && err.code === 'NXDOMAIN') return []
+		throw err
+	})
+
+	if (type !== 'CNAME') return single(name)
+
+	const chain: LookupRecord<Type>[] = [],
+		seen = new Set<string>([ name.toLowerCase() ])
+
+	for (let current = name; chain.length < 16;) {
+		const [ hop ] = await single(current)
+		if (!hop) break
+
+		chain.push(hop)
+
+		current = hop.data as string
+		if (seen.has(current.toLowerCase())) break
+		seen.add(current.toLowerCase())
+	}
+
+	return chain
+}
+
+export type HostsEntry = {
+	/** The Address the Hostnames point to */ address: IPAddress
+	/** The Hostnames (and Aliases) of the Entry */ hostnames: string[]
+}
+
+const hosts = new Map<string, IPAddress[]>()
+
+/**
+ * Parse the Content of a Hosts File (`/etc/hosts` format)
+ * 
+ * Comments and invalid Lines are ignored.
+ * @example
+ * ```
+ * import { dns } from "@rjweb/utils"
+ * 
+ * dns.parseHosts('127.0.0.1 localhost\n::1 localhost ip6-localhost # loopback')
+ * // [{ address: <IPAddress v4 127.0.0.1>, hostnames: ['localhost'] }, { address: <IPAddress v6 ::1>, hostnames: ['localhost', 'ip6-localhost'] }]
+ * ```
+ * @since 1.13.0
+ * @supports nodejs, browser
+*/ export function parseHosts(content: string): HostsEntry[] {
+	const entries: HostsEntry[] = []
+
+	for (const line of content.split('\n')) {
+		const [ address, ...hostnames ] = line.replace(/#.*$/, '').trim().split(/\s+/)
+		if (!address || !hostnames.length || net.isIP(address) === 0 || !isIP(address)) continue
+
+		entries.push({ address: new IPAddress(address), hostnames: hostnames.map((hostname) => hostname.toLowerCase()) })
+	}
+
+	return entries
+}
+
+/**
+ * Add static Overrides that are consulted before any Query by `dns.resolve`, `dns.resolveAll` and `dns.reverse`
+ * 
+ * Hostnames may start with `*.` to match all subdomains, the most specific match wins.
+ * @example
+ * ```
+ * import { dns, network } from "@rjweb/utils"
+ * 
+ * dns.addHosts({
+ *   'api.example.com': '127.0.0.1',
+ *   '*.example.test': [new network.IPAddress('10.0.0.1'), '::1']
+ * })
+ * 
+ * await dns.resolve('api.example.com') // <IPAddress v4 127.0.0.1>
+ * await dns.resolve('a.b.example.test', 'v6') // <IPAddress v6 ::1>
+ * ```
+ * @throws If an Address is invalid
+ * @since 1.13.0
+ * @supports nodejs, browser
+*/ export function addHosts(entries: Record<string, ArrayOrNot<string | IPAddress>> | HostsEntry[]): void {
+	const pairs = Array.isArray(entries)
+		? entries.flatMap((entry) => entry.hostnames.map((hostname) => [ hostname, [ entry.address ] ] as const))
+		: Object.entries(entries).map(([ hostname, addresses ]) => [ hostname, (Array.isArray(addresses) ? addresses : [ addresses ]).map((address) => new IPAddress(address)) ] as const)
+
+	for (const [ hostname, addresses ] of pairs) {
+		const key = trimDot(hostname).toLowerCase(),
+			existing = hosts.get(key) ?? []
+
+		hosts.set(key, existing.concat(addresses.filter((address) => !existing.some((e) => e.equals(address)))))
+	}
+}
+
+/**
+ * Load a Hosts File into the static Overrides
+ * @example
+ * ```
+ * import { dns } from "@rjweb/utils"
+ * 
+ * await dns.loadHosts() // /etc/hosts
+ * await dns.loadHosts('./test/fixtures/hosts')
+ * ```
+ * @since 1.13.0
+ * @supports nodejs
+ * @default file = '/etc/hosts'
+*/ export async function loadHosts(file: string = '/etc/hosts'): Promise<HostsEntry[]> {
+	const entries = parseHosts(await fs.promises.readFile(file, 'utf8'))
+	addHosts(entries)
+
+	return entries
+}
+
+/**
+ * Remove static Overrides, removes all Overrides if no Hostnames are provided
+ * @example
+ * ```
+ * import { dns } from "@rjweb/utils"
+ * 
+ * dns.removeHosts('api.example.com', '*.example.test')
+ * dns.removeHosts()
+ * ```
+ * @since 1.13.0
+ * @supports nodejs, browser
+*/ export function removeHosts(...hostnames: string[]): void {
+	if (!hostnames.length) hosts.clear()
+	for (const hostname of hostnames) hosts.delete(trimDot(hostname).toLowerCase())
+}
+
+/**
+ * Get the Addresses a Hostname is statically overridden with, `null` if there is no Override
+ * @example
+ * ```
+ * import { dns } from "@rjweb/utils"
+ * 
+ * dns.addHosts({ '*.example.test': '127.0.0.1' })
+ * 
+ * dns.getHosts('a.example.test') // [<IPAddress v4 127.0.0.1>]
+ * dns.getHosts('example.test') // null
+ * ```
+ * @since 1.13.0
+ * @supports nodejs, browser
+*/ export function getHosts(hostname: string): IPAddress[] | null {
+	const labels = trimDot(hostname).toLowerCase().split('.')
+
+	const exact = hosts.get(labels.join('.'))
+	if (exact) return Array.from(exact)
+
+	for (let i = 1; i <= labels.length; i++) {
+		const wildcard = hosts.get(['*', ...labels.slice(i)].join('.'))
+		if (wildcard) return Array.from(wildcard)
+	}
+
+	return null
+}
+
+function orderAddresses(addresses: ResolvedAddress[], prefer: 'v4' | 'v6'): ResolvedAddress[] {
+	const preferred = addresses.filter(({ address }) => address.isIPv4() === (prefer === 'v4')),
+		other = addresses.filter(({ address }) => address.isIPv4() !== (prefer === 'v4')),
+		ordered: ResolvedAddress[] = []
+
+	for (let i = 0; i < Math.max(preferred.length, other.length); i++) {
+		if (preferred[i]) ordered.push(preferred[i])
+		if (other[i]) ordered.push(other[i])
+	}
+
+	return ordered
+}
+
+export type ResolvedAddress = {
+	/** The resolved Address */ address: IPAddress
+	/** The Time to live in seconds, `0` for IP Hosts */ ttl: number
+	/** Whether the Answer was authenticated using DNSSEC, always `true` for IP Hosts and static Overrides */ authenticated: boolean
+}
+
+/**
+ * Resolve a Host to all of its IPs
+ * 
+ * Addresses are ordered according to RFC 8305 (Happy Eyeballs v2), alternating between both families starting with the preferred one.
+ * Failures are thrown as `dns.DNSError`, a Host without any Addresses resolves to an empty Array.
+ * Static Overrides (see `dns.addHosts`) are consulted first.
+ * With `requireAuthenticated` a `dns.DNSError` (`UNAUTHENTICATED`) is thrown if any Address was not authenticated using DNSSEC.
+ * @example
+ * ```
+ * import { dns } from "@rjweb/utils"
+ * 
+ * await dns.resolveAll('1.1.1.1') // [{ address: <IPAddress v4 1.1.1.1>, ttl: 0 }]
+ * await dns.resolveAll('google.com', 'v6') // [{ address: <IPAddress v6 2a00:1450:400d:803::200e>, ttl: 300 }, { address: <IPAddress v4 142.250.185.78>, ttl: 300 }]
+ * await dns.resolveAll('google.cdom') // DNSError: DNS Query for `google.cdom` failed with NXDOMAIN
+ * ```
+ * @throws {DNSError} If the Host does not exist (`NXDOMAIN`), the Server failed (`SERVFAIL`, `REFUSED`, ...) or did not respond (`TIMEOUT`)
+ * @since 1.13.0
+ * @supports nodejs, browser
+ * @default
+ * prefer = 'v4'
+ * mode = 'fetch'
+*/ export async function resolveAll(host: string, prefer: 'v4' | 'v6' = 'v4', mode: ResolveMode = 'fetch', options?: LookupOptions): Promise<ResolvedAddress[]> {
+	if (isIP(host)) return [{ address: new IPAddress(host), ttl: 0, authenticated: true }]
+
+	const overrides = getHosts(host)
+	if (overrides) return orderAddresses(overrides.map((address) => ({ address, ttl: 0, authenticated: true })), prefer)
+
+	const [ v4, v6 ] = await Promise.allSettled([
+		lookupMode(host, 'A', mode, options),
+		lookupMode(host, 'AAAA', mode, options)
+	])
+
+	if (v4.status === 'rejected' && v6.status === 'rejected') {
+		throw v4.reason instanceof DNSError && v4.reason.code !== 'NXDOMAIN' ? v4.reason : v6.reason
+	}
+
+	for (const result of [ v4, v6 ]) {
+		if (result.status === 'rejected' && result.reason instanceof DNSError && result.reason.code === 'UNAUTHENTICATED') throw result.reason
+	}
+
+	const v4Addresses = v4.status === 'fulfilled' ? v4.value.map((record) => ({ address: record.data as IPAddress, ttl: record.ttl, authenticated: record.authenticated })) : [],
+		v6Addresses = v6.status === 'fulfilled' ? v6.value.map((record) => ({ address: record.data as IPAddress, ttl: record.ttl, authenticated: record.authenticated })) : []
+
+	if (!v4Addresses.length && !v6Addresses.length) {
+		if (v4.status === 'rejected') throw v4.reason
+		if (v6.status === 'rejected') throw v6.reason
+	}
+
+	return orderAddresses(v4Addresses.concat(v6Addresses), prefer)
+}
+
 /**
  * Resolve a Host to an IP
  * @example
@@ -38,37 +1556,21 @@ type HttpDNSResponse = {
  * await dns.resolve('google.com', 'v4') // <IPAddress v4 142.250.185.78>
  * await dns.resolve('google.com', 'v6') // <IPAddress v4 2a00:1450:400d:803::200e:>
  * await dns.resolve('google.cdom', 'v6') // null
+ * await dns.resolve('google.com', 'v4', 'native') // <IPAddress v4 142.250.185.78>
+ * await dns.resolve('google.com', 'v4', 'native', { validate: true, requireAuthenticated: true }) // null (google.com is not signed)
  * ```
  * @since 1.8.0
  * @supports nodejs, browser
  * @default
  * prefer = 'v4'
  * mode = 'fetch'
-*/ export async function resolve(host: string, prefer: 'v4' | 'v6' = 'v4', mode: 'dns' | 'fetch' = 'fetch'): Promise<IPAddress | null> {
-	if (isIP(host)) return new IPAddress(host)
-
-	if (mode === 'dns') {
-		const [ v4, v6 ] = await Promise.allSettled([
-			dns.promises.resolve4(host),
-			dns.promises.resolve6(host)
-		])
-
-		if (v4.status === 'rejected' && v6.status === 'rejected') return null
-
-		if (prefer === 'v4' && v4.status === 'fulfilled') return new IPAddress(v4.value[0])
-		else if (prefer === 'v6' && v6.status === 'fulfilled') return new IPAddress(v6.value[0])
-		else return new IPAddress(v4.status === 'fulfilled' ? v4.value[0] : v6.status === 'fulfilled' ? v6.value[0] : '127.0.0.1')
-	} else {
-		const [ v4, v6 ] = await Promise.all([
-			fetch(`https://cloudflare-dns.com/dns-query?name=${host}&type=A`, { headers: { accept: 'application/dns-json' } }).then(res => res.json() as Promise<HttpDNSResponse>),
-			fetch(`https://cloudflare-dns.com/dns-query?name=${host}&type=AAAA`, { headers: { accept: 'application/dns-json' } }).then(res => res.json() as Promise<HttpDNSResponse>)
-		])
-
-		if (!v4.Answer && !v6.Answer) return null
+*/ export async function resolve(host: string, prefer: 'v4' | 'v6' = 'v4', mode: ResolveMode = 'fetch', options?: LookupOptions): Promise<IPAddress | null> {
+	try {
+		const [ first ] = await resolveAll(host, prefer, mode, options)
 
-		if (prefer === 'v4' && v4.Answer) return new IPAddress(v4.Answer[0].data)
-		else if (prefer === 'v6' && v6.Answer) return new IPAddress(v6.Answer[0].data)
-		else return new IPAddress(v4.Answer ? v4.Answer[0].data : v6.Answer ? v6.Answer[0].data : '127.0.0.1')
+		return first?.address ?? null
+	} catch {
+		return null
 	}
 }
 
@@ -90,25 +1592,15 @@ type HttpDNSResponse = {
  * @since 1.10.5
  * @supports nodejs, browser
  * @default mode = 'fetch'
-*/ export async function reverse(ip: IPAddress, mode: 'dns' | 'fetch' = 'fetch'): Promise<string | null> {
-	try {
-		if (mode === 'dns') {
-			const result = await dns.promises.reverse(ip.long())
-
-			return result[0]
-		} else {
-			if (ip.isIPv4()) {
-				const result = await fetch(`https://cloudflare-dns.com/dns-query?name=${ip.reverse()}&type=PTR`, { headers: { accept: 'application/dns-json' } }).then(res => res.json() as Promise<HttpDNSResponse>)
+*/ export async function reverse(ip: IPAddress, mode: ResolveMode = 'fetch', options?: LookupOptions): Promise<string | null> {
+	for (const [ hostname, addresses ] of hosts) {
+		if (!hostname.startsWith('*') && addresses.some((address) => address.equals(ip))) return hostname
+	}
 
-				if (!result.Answer) return null
-				return result.Answer[0].data
-			} else {
-				const result = await fetch(`https://cloudflare-dns.com/dns-query?name=${ip.reverse()}&type=PTR`, { headers: { accept: 'application/dns-json' } }).then(res => res.json() as Promise<HttpDNSResponse>)
+	try {
+		const [ record ] = await lookupMode(ip.reverse(), 'PTR', mode, options)
 
-				if (!result.Answer) return null
-				return result.Answer[0].data
-			}
-		}
+		return record?.data ?? null
 	} catch {
 		return null
 	}
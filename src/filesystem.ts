@@ -2,7 +2,9 @@ import * as fs from "fs"
 import * as path from "path"
 import * as rl from "readline"
 import * as crypto from "crypto"
+import * as streams from "stream"
 import { as, stream as _stream, string, ArrayOrNot } from "."
+import { ChunkCipher, STREAM_MAX_HEADER_LENGTH, STREAM_TAG_LENGTH, StreamHeader, StreamLimits, deriveKeyAsync, readStreamHeader } from "./cipher"
 
 /**
  * Get Files from a folder
@@ -394,4 +396,120 @@ import { as, stream as _stream, string, ArrayOrNot } from "."
 
 		return replaced as never
 	}
+}
+
+/**
+ * Encrypt a File chunk by chunk into another File
+ * 
+ * Uses the authenticated, seekable format of `stream.encrypt` so large files never have to be held in memory.
+ * @example
+ * ```
+ * import { filesystem } from "@rjweb/utils"
+ * 
+ * await filesystem.encrypt('./backup.tar', './backup.tar.enc', 'secret', { algorithm: 'chacha20-poly1305' })
+ * ```
+ * @since 1.13.0
+ * @supports nodejs
+*/ export async function encrypt(file: fs.PathLike, output: fs.PathLike, key: crypto.BinaryLike, options?: Parameters<typeof _stream.encrypt>[1]): Promise<void> {
+	await streams.promises.pipeline(
+		fs.createReadStream(file),
+		_stream.encrypt(key, options),
+		fs.createWriteStream(output)
+	)
+}
+
+/**
+ * Decrypt a File created using `filesystem.encrypt` or `stream.encrypt` into another File
+ * 
+ * When `slice` is provided only the chunks containing the requested plaintext range are read and decrypted.
+ * @example
+ * ```
+ * import { filesystem } from "@rjweb/utils"
+ * 
+ * await filesystem.decrypt('./backup.tar.enc', './backup.tar', 'secret')
+ * await filesystem.decrypt('./backup.tar.enc', './header.bin', 'secret', { slice: { start: 0, end: 511 } })
+ * ```
+ * @throws If the file was tampered with, truncated, the key is wrong or the key derivation or chunk size exceeds `limits`
+ * @since 1.13.0
+ * @supports nodejs
+*/ export async function decrypt(file: fs.PathLike, output: fs.PathLike, key: crypto.BinaryLike, options?: {
+	/**
+	 * The plaintext Range to decrypt (end is inclusive)
+	 * @since 1.13.0
+	*/ slice?: { start?: number, end?: number }
+	/**
+	 * The Limits for the Key Derivation and Chunk Size read from the File Header
+	 * @default { maxIterations: 1000000, maxCost: 131072, maxParallelization: 16, maxMemory: 268435456, maxChunkSize: 16777216 }
+	 * @since 1.13.0
+	*/ limits?: StreamLimits
+}): Promise<void> {
+	if (!options?.slice) {
+		await streams.promises.pipeline(
+			fs.createReadStream(file),
+			_stream.decrypt(key, { limits: options?.limits }),
+			fs.createWriteStream(output)
+		)
+
+		return
+	}
+
+	const handle = await fs.promises.open(file, 'r')
+
+	let readHeader: StreamHeader | null, fileSize: number
+	try {
+		const headerData = Buffer.alloc(STREAM_MAX_HEADER_LENGTH)
+		const { bytesRead } = await handle.read(headerData, 0, headerData.length, 0)
+
+		readHeader = readStreamHeader(Buffer.from(headerData.subarray(0, bytesRead)), options?.limits)
+		fileSize = (await handle.stat()).size
+	} finally {
+		await handle.close()
+	}
+
+	if (!readHeader) throw new Error('Truncated Encrypted Stream')
+	const header = readHeader
+
+	const encryptedChunkSize = header.chunkSize + STREAM_TAG_LENGTH,
+		chunks = Math.max(Math.ceil((fileSize - header.raw.length) / encryptedChunkSize), 1),
+		start = options.slice.start ?? 0,
+		end = options.slice.end ?? Infinity,
+		firstChunk = Math.floor(start / header.chunkSize),
+		lastChunk = Math.min(Math.floor(end / header.chunkSize), chunks - 1)
+
+	if (firstChunk > lastChunk) return fs.promises.writeFile(output, '')
+
+	const cipher = new ChunkCipher(header, await deriveKeyAsync(key, header.salt, 32, header.kdf)),
+		source = fs.createReadStream(file, {
+			start: header.raw.length + firstChunk * encryptedChunkSize,
+			end: Math.min(header.raw.length + (lastChunk + 1) * encryptedChunkSize, fileSize) - 1
+		})
+
+	await streams.promises.pipeline(
+		source,
+		async function* (source: AsyncIterable<Buffer>) {
+			let buffered = Buffer.alloc(0), index = firstChunk, position = firstChunk * header.chunkSize
+
+			const emit = (encrypted: Buffer) => {
+				const data = cipher.open(index, encrypted, index === chunks - 1),
+					sliced = data.subarray(Math.max(start - position, 0), Math.max(Math.min(end + 1 - position, data.length), 0))
+
+				index++
+				position += data.length
+
+				return sliced
+			}
+
+			for await (const chunk of source) {
+				buffered = Buffer.concat([ buffered, chunk ])
+
+				while (buffered.length >= encryptedChunkSize && index < lastChunk) {
+					yield emit(buffered.subarray(0, encryptedChunkSize))
+					buffered = buffered.subarray(encryptedChunkSize)
+				}
+			}
+
+			yield emit(buffered)
+		},
+		fs.createWriteStream(output)
+	)
 }
\ No newline at end of file
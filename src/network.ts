@@ -1,7 +1,9 @@
 import * as net from "net"
+import * as tls from "tls"
 import * as fs from "fs"
-import { ArrayOrNot, as } from "."
+import { ArrayOrNot, as, time, filesystem } from "."
 import * as crypto from "crypto"
+import { Transform } from "./stream"
 
 const hexChars = '0123456789ABCDEFabcdef'
 
@@ -15,9 +17,96 @@ function fullyHex(hex: string): boolean {
 
 const inspectSymbol = Symbol.for('nodejs.util.inspect.custom')
 
+/**
+ * Replace an embedded dotted IPv4 Address at the end of an IPv6 Address (`::ffff:1.2.3.4`) with hex segments
+ * @returns null if the embedded IPv4 Address is invalid
+*/ function expandEmbeddedIPv4(ip: string): string | null {
+	const lastColon = ip.lastIndexOf(':'),
+		last = ip.slice(lastColon + 1)
+
+	if (!last.includes('.')) return ip
+
+	const octets = last.split('.')
+	if (octets.length !== 4) return null
+
+	const ints = octets.map((octet) => /^\d{1,3}$/.test(octet) ? parseInt(octet) : NaN)
+	if (ints.some((int) => isNaN(int) || int > 0xFF)) return null
+
+	return ip.slice(0, lastColon + 1).concat(((ints[0] << 8) | ints[1]).toString(16), ':', ((ints[2] << 8) | ints[3]).toString(16))
+}
+
 export const MAX_IPV4_LONG = 4294967295,
 	MAX_IPV6_LONG = BigInt('340282366920938463463374607431768211455')
 
+const nat64Lengths = Object.freeze([32, 40, 48, 56, 64, 96])
+
+function wordsToBytes(words: Uint16Array): Uint8Array {
+	const bytes = new Uint8Array(16)
+	for (let i = 0; i < 8; i++) {
+		bytes[i * 2] = words[i] >> 8
+		bytes[i * 2 + 1] = words[i] & 0xFF
+	}
+
+	return bytes
+}
+
+function bytesToWords(bytes: Uint8Array): Uint16Array {
+	const words = new Uint16Array(8)
+	for (let i = 0; i < 8; i++) {
+		words[i] = (bytes[i * 2] << 8) | bytes[i * 2 + 1]
+	}
+
+	return words
+}
+
+function toMappedSubnet(subnet: Subnet): Subnet<6> {
+	if (subnet.isIPv6()) return subnet
+
+	return new Subnet(`${subnet.first().toIPv4Mapped().long()}/${96 + subnet.netmask}`, 6)
+}
+
+function bigIntOf(ip: IPAddress): bigint {
+	return BigInt(ip.int())
+}
+
+function ipOf(int: bigint, type: 4 | 6): IPAddress {
+	return type === 4 ? new IPAddress(Number(int)) : new IPAddress(int)
+}
+
+function rangeToSubnets(start: bigint, end: bigint, type: 4 | 6): Subnet[] {
+	const bits = BigInt(type === 4 ? 32 : 128),
+		subnets: Subnet[] = []
+
+	while (start <= end) {
+		let size = BigInt(0)
+		while (size < bits && (start & ((BigInt(1) << (size + BigInt(1))) - BigInt(1))) === BigInt(0) && start + (BigInt(1) << (size + BigInt(1))) - BigInt(1) <= end) {
+			size++
+		}
+
+		subnets.push(new Subnet(`${ipOf(start, type).long()}/${bits - size}`))
+		start += BigInt(1) << size
+	}
+
+	return subnets
+}
+
+function mergeRanges(ranges: [bigint, bigint][]): [bigint, bigint][] {
+	const sorted = ranges.slice().sort(([ a ], [ b ]) => a < b ? -1 : a > b ? 1 : 0),
+		merged: [bigint, bigint][] = []
+
+	for (const [ start, end ] of sorted) {
+		const last = merged[merged.length - 1]
+
+		if (last && start <= last[1] + BigInt(1)) {
+			if (end > last[1]) last[1] = end
+		} else {
+			merged.push([ start, end ])
+		}
+	}
+
+	return merged
+}
+
 /**
  * A Respresentation of a Subnet
  * @example
@@ -210,12 +299,33 @@ export const MAX_IPV4_LONG = 4294967295,
 
 	/**
 	 * Check if the Subnet includes another IP address or subnet
+	 * 
+	 * Pass `{ normalize: true }` as the last argument to treat IPv4 and IPv4-mapped IPv6 Addresses / Subnets as equal
+	 * @example
+	 * ```
+	 * import { network } from "@rjweb/utils"
+	 * 
+	 * const subnet = new network.Subnet('10.0.0.0/8')
+	 * 
+	 * subnet.includes(new network.IPAddress('10.1.2.3')) // true
+	 * subnet.includes(new network.IPAddress('::ffff:10.1.2.3')) // false
+	 * subnet.includes(new network.IPAddress('::ffff:10.1.2.3'), { normalize: true }) // true
+	 * ```
 	 * @since 1.11.0
-	*/ public includes(...ips: (IPAddress<Type> | Subnet<Type>)[]): boolean {
+	*/ public includes(...ips: (IPAddress<Type> | Subnet<Type>)[] | [...(IPAddress | Subnet)[], { normalize?: boolean }]): boolean {
+		const last = ips[ips.length - 1],
+			options = last && !(last instanceof IPAddress) && !(last instanceof Subnet) ? ips.pop() as { normalize?: boolean } : null
+
+		if (options?.normalize) {
+			const mapped = toMappedSubnet(this)
+
+			return mapped.includes(...(ips as (IPAddress | Subnet)[]).map((ip) => ip instanceof Subnet ? toMappedSubnet(ip) : ip.isIPv4() ? ip.toIPv4Mapped() : ip as IPAddress<6>))
+		}
+
 		const fInt = this.first().int(),
 			lInt = this.last().int()
 
-		for (const ip of ips) {
+		for (const ip of ips as (IPAddress | Subnet)[]) {
 			if (this.isIPv4() !== ip.isIPv4()) return false
 
 			if (ip instanceof Subnet) {
@@ -235,48 +345,109 @@ export const MAX_IPV4_LONG = 4294967295,
 		return true
 	}
 
+	/**
+	 * Split the Subnet into `count` equally sized child Subnets (`count` must be a power of 2)
+	 * @example
+	 * ```
+	 * import { network } from "@rjweb/utils"
+	 * 
+	 * new network.Subnet('10.0.0.0/24').split(4) // [<Subnet v4 /26 10.0.0.0->10.0.0.63>, ...]
+	 * ```
+	 * @since 1.13.0
+	*/ public split(count: number): Subnet<Type>[] {
+		const bits = Math.log2(count)
+		if (!Number.isInteger(bits) || bits < 0) throw new Error('Count must be a power of 2')
+
+		const netmask = this.netmask + bits
+		if (netmask > (this.type === 4 ? 32 : 128)) throw new Error('Subnet too small to split')
+
+		const size = this.size() / BigInt(count),
+			first = bigIntOf(this.iFirst),
+			subnets: Subnet<Type>[] = []
+
+		for (let i = BigInt(0); i < BigInt(count); i++) {
+			subnets.push(new Subnet(`${ipOf(first + i * size, this.type).long()}/${netmask}`) as Subnet<Type>)
+		}
+
+		return subnets
+	}
+
+	/**
+	 * Subtract other Subnets from this Subnet, returns the minimal list of remaining Subnets
+	 * @example
+	 * ```
+	 * import { network } from "@rjweb/utils"
+	 * 
+	 * new network.Subnet('10.0.0.0/24').subtract(new network.Subnet('10.0.0.0/25')) // [<Subnet v4 /25 10.0.0.128->10.0.0.255>]
+	 * new network.Subnet('10.0.0.0/30').subtract(new network.Subnet('10.0.0.1/32')) // [<Subnet v4 /32 10.0.0.0->10.0.0.0>, <Subnet v4 /31 10.0.0.2->10.0.0.3>]
+	 * ```
+	 * @since 1.13.0
+	*/ public subtract(...subnets: Subnet[]): Subnet<Type>[] {
+		let remaining: [bigint, bigint][] = [[ bigIntOf(this.first()), bigIntOf(this.last()) ]]
+
+		for (const [ start, end ] of mergeRanges(subnets.filter((subnet) => subnet.type === this.type).map((subnet) => [ bigIntOf(subnet.first()), bigIntOf(subnet.last()) ]))) {
+			remaining = remaining.flatMap(([ rStart, rEnd ]): [bigint, bigint][] => {
+				if (end < rStart || start > rEnd) return [[ rStart, rEnd ]]
+
+				const parts: [bigint, bigint][] = []
+				if (start > rStart) parts.push([ rStart, start - BigInt(1) ])
+				if (end < rEnd) parts.push([ end + BigInt(1), rEnd ])
+
+				return parts
+			})
+		}
+
+		return remaining.flatMap(([ start, end ]) => rangeToSubnets(start, end, this.type)) as Subnet<Type>[]
+	}
+
+	/**
+	 * Collapse overlapping and adjacent Subnets into the minimal list of Subnets (IPv4 first, then IPv6)
+	 * @example
+	 * ```
+	 * import { network } from "@rjweb/utils"
+	 * 
+	 * network.Subnet.merge([
+	 *   new network.Subnet('10.0.0.0/25'),
+	 *   new network.Subnet('10.0.0.128/25'),
+	 *   new network.Subnet('10.0.0.64/26')
+	 * ]) // [<Subnet v4 /24 10.0.0.0->10.0.0.255>]
+	 * ```
+	 * @since 1.13.0
+	*/ public static merge(subnets: Subnet[]): Subnet[] {
+		return ([4, 6] as const).flatMap((type) => mergeRanges(subnets.filter((subnet) => subnet.type === type).map((subnet) => [ bigIntOf(subnet.first()), bigIntOf(subnet.last()) ]))
+			.flatMap(([ start, end ]) => rangeToSubnets(start, end, type)))
+	}
+
+	/**
+	 * Get the minimal list of Subnets covering a Range of IPs (inclusive)
+	 * @example
+	 * ```
+	 * import { network } from "@rjweb/utils"
+	 * 
+	 * network.Subnet.fromRange(new network.IPAddress('10.0.0.0'), new network.IPAddress('10.0.0.255')) // [<Subnet v4 /24 10.0.0.0->10.0.0.255>]
+	 * network.Subnet.fromRange(new network.IPAddress('10.0.0.1'), new network.IPAddress('10.0.0.4')) // [<Subnet v4 /32 ...>, <Subnet v4 /31 ...>, <Subnet v4 /32 ...>]
+	 * ```
+	 * @throws If the IPs are of different types or start is after end
+	 * @since 1.13.0
+	*/ public static fromRange<Type extends 4 | 6>(start: IPAddress<Type>, end: IPAddress<Type>): Subnet<Type>[] {
+		if (start.isIPv4() !== end.isIPv4()) throw new Error('Not Expected Type')
+
+		const startInt = bigIntOf(start), endInt = bigIntOf(end)
+		if (startInt > endInt) throw new Error('Start must not be after End')
+
+		return rangeToSubnets(startInt, endInt, start.isIPv4() ? 4 : 6) as Subnet<Type>[]
+	}
+
 	public [Symbol.iterator](): Iterator<IPAddress<Type>> {
-		const first = this.iFirst, size = this.size()
+		const first = this.first(), size = this.size()
 		let i = BigInt(0)
 
-		if (this.type === 4) {
-			return {
-				next() {
-					if (i === size) return { value: size, done: true }
-	
-					const ip = new Uint8Array(first.rawData)
-					let overflow = i
-	
-					for (let j = ip.length - 1; j >= 0 && overflow > 0; j--) {
-						let sum = ip[j] + Number(overflow)
-						ip[j] = sum % 256
-						overflow = BigInt(Math.floor(sum / 256))
-					}
-	
-					++i
-					return {
-						value: new IPAddress(ip)
-					}
-				}
-			}
-		} else {
-			return {
-				next() {
-					if (i === size) return { value: size, done: true }
-	
-					const ip = new Uint16Array(first.rawData)
-					let overflow = i
-	
-					for (let j = ip.length - 1; j >= 0 && overflow > 0; j--) {
-						let sum = ip[j] + Number(overflow)
-						ip[j] = sum % 65536
-						overflow = BigInt(Math.floor(sum / 65536))
-					}
+		return {
+			next() {
+				if (i === size) return { value: size, done: true }
 
-					++i
-					return {
-						value: new IPAddress(ip)
-					}
+				return {
+					value: first.add(i++)
 				}
 			}
 		}
@@ -432,7 +603,7 @@ export const MAX_IPV4_LONG = 4294967295,
 			}
 
 			case "v6": {
-				const segments = ip.split(':')
+				const segments = expandEmbeddedIPv4(ip)!.split(':')
 				if (segments[0] === '') segments.splice(0, 1)
 
 				if (type && type !== 6) throw new Error('Not Expected Type')
@@ -598,10 +769,279 @@ export const MAX_IPV4_LONG = 4294967295,
 		}
 	}
 
+	/**
+	 * Add to this IP
+	 * @example
+	 * ```
+	 * import { network } from "@rjweb/utils"
+	 * 
+	 * new network.IPAddress('10.0.0.255').add(2) // <IPAddress v4 10.0.1.1>
+	 * new network.IPAddress('::fffe').add(BigInt(1)) // <IPAddress v6 ::ffff>
+	 * new network.IPAddress('255.255.255.255').add(1) // <throws Error>
+	 * ```
+	 * @throws If the result is outside of the IPs family
+	 * @since 1.13.0
+	*/ public add(amount: number | bigint): IPAddress<Type> {
+		const int = bigIntOf(this) + BigInt(amount)
+
+		if (int < BigInt(0)) throw new Error('IP Underflow')
+		if (int > (this.type === 4 ? BigInt(MAX_IPV4_LONG) : MAX_IPV6_LONG)) throw new Error('IP Overflow')
+
+		return ipOf(int, this.type) as IPAddress<Type>
+	}
+
+	/**
+	 * Subtract from this IP
+	 * @example
+	 * ```
+	 * import { network } from "@rjweb/utils"
+	 * 
+	 * new network.IPAddress('10.0.1.1').subtract(2) // <IPAddress v4 10.0.0.255>
+	 * new network.IPAddress('0.0.0.0').subtract(1) // <throws Error>
+	 * ```
+	 * @throws If the result is outside of the IPs family
+	 * @since 1.13.0
+	*/ public subtract(amount: number | bigint): IPAddress<Type> {
+		return this.add(-BigInt(amount))
+	}
+
+	/**
+	 * Get the next IP
+	 * @throws If this is the last IP of its family
+	 * @since 1.13.0
+	*/ public next(): IPAddress<Type> {
+		return this.add(1)
+	}
+
+	/**
+	 * Get the previous IP
+	 * @throws If this is the first IP of its family
+	 * @since 1.13.0
+	*/ public previous(): IPAddress<Type> {
+		return this.add(-1)
+	}
+
+	/**
+	 * Compare this IP to another IP, IPv4 Addresses are sorted before IPv6 Addresses
+	 * @example
+	 * ```
+	 * import { network } from "@rjweb/utils"
+	 * 
+	 * new network.IPAddress('10.0.0.1').compare(new network.IPAddress('10.0.0.2')) // -1
+	 * new network.IPAddress('10.0.0.1').compare(new network.IPAddress('10.0.0.1')) // 0
+	 * new network.IPAddress('::1').compare(new network.IPAddress('10.0.0.1')) // 1
+	 * ```
+	 * @returns -1 if this IP is lower, 1 if it is higher and 0 if equal
+	 * @since 1.13.0
+	*/ public compare(other: IPAddress): -1 | 0 | 1 {
+		if (this.type !== other.type) return this.type === 4 ? -1 : 1
+
+		const a = bigIntOf(this), b = bigIntOf(other)
+
+		return a < b ? -1 : a > b ? 1 : 0
+	}
+
+	/**
+	 * Get the Distance from this IP to another IP (negative if the other IP is lower)
+	 * @example
+	 * ```
+	 * import { network } from "@rjweb/utils"
+	 * 
+	 * new network.IPAddress('10.0.0.1').distance(new network.IPAddress('10.0.1.1')) // 256n
+	 * new network.IPAddress('10.0.1.1').distance(new network.IPAddress('10.0.0.1')) // -256n
+	 * ```
+	 * @throws If the IPs are of different types
+	 * @since 1.13.0
+	*/ public distance(other: IPAddress<Type>): bigint {
+		if (this.type !== other.type) throw new Error('Not Expected Type')
+
+		return bigIntOf(other) - bigIntOf(this)
+	}
+
+	/**
+	 * Compare two IPs, useful for sorting
+	 * @example
+	 * ```
+	 * import { network } from "@rjweb/utils"
+	 * 
+	 * const ips = [ new network.IPAddress('::1'), new network.IPAddress('10.0.0.2'), new network.IPAddress('10.0.0.1') ]
+	 * 
+	 * ips.sort(network.IPAddress.compare) // [<IPAddress v4 10.0.0.1>, <IPAddress v4 10.0.0.2>, <IPAddress v6 ::1>]
+	 * ```
+	 * @since 1.13.0
+	*/ public static compare(a: IPAddress, b: IPAddress): -1 | 0 | 1 {
+		return a.compare(b)
+	}
+
+	/**
+	 * Whether this is an IPv4-mapped IPv6 Address (`::ffff:0:0/96`)
+	 * @since 1.13.0
+	*/ public isIPv4Mapped(): this is IPAddress<6> {
+		if (this.type !== 6) return false
+
+		for (let i = 0; i < 5; i++) {
+			if (this.rawData[i] !== 0) return false
+		}
+
+		return this.rawData[5] === 0xFFFF
+	}
+
+	/**
+	 * Convert this IPv4 Address to an IPv4-mapped IPv6 Address
+	 * @example
+	 * ```
+	 * import { network } from "@rjweb/utils"
+	 * 
+	 * new network.IPAddress('1.2.3.4').toIPv4Mapped() // <IPAddress v6 ::ffff:102:304>
+	 * ```
+	 * @throws If this is not an IPv4 Address
+	 * @since 1.13.0
+	*/ public toIPv4Mapped(): IPAddress<6> {
+		if (this.type !== 4) throw new Error('Not Expected Type')
+
+		return new IPAddress(mappedWords(this)) as IPAddress<6>
+	}
+
+	/**
+	 * Convert this IPv4-mapped IPv6 Address to an IPv4 Address
+	 * @example
+	 * ```
+	 * import { network } from "@rjweb/utils"
+	 * 
+	 * new network.IPAddress('::ffff:1.2.3.4').fromIPv4Mapped() // <IPAddress v4 1.2.3.4>
+	 * ```
+	 * @throws If this is not an IPv4-mapped IPv6 Address
+	 * @since 1.13.0
+	*/ public fromIPv4Mapped(): IPAddress<4> {
+		if (!this.isIPv4Mapped()) throw new Error('Not an IPv4-mapped Address')
+
+		return new IPAddress(new Uint8Array([ this.rawData[6] >> 8, this.rawData[6] & 0xFF, this.rawData[7] >> 8, this.rawData[7] & 0xFF ])) as IPAddress<4>
+	}
+
+	/**
+	 * Convert this IPv4 Address to a 6to4 IPv6 Address (`2002:V4ADDR::/48`)
+	 * @example
+	 * ```
+	 * import { network } from "@rjweb/utils"
+	 * 
+	 * new network.IPAddress('192.0.2.1').to6to4() // <IPAddress v6 2002:c000:201::>
+	 * ```
+	 * @throws If this is not an IPv4 Address
+	 * @since 1.13.0
+	*/ public to6to4(): IPAddress<6> {
+		if (this.type !== 4) throw new Error('Not Expected Type')
+
+		return new IPAddress(new Uint16Array([ 0x2002, (this.rawData[0] << 8) | this.rawData[1], (this.rawData[2] << 8) | this.rawData[3], 0, 0, 0, 0, 0 ])) as IPAddress<6>
+	}
+
+	/**
+	 * Extract the IPv4 Address of a 6to4 IPv6 Address
+	 * @example
+	 * ```
+	 * import { network } from "@rjweb/utils"
+	 * 
+	 * new network.IPAddress('2002:c000:201::1').from6to4() // <IPAddress v4 192.0.2.1>
+	 * ```
+	 * @throws If this is not a 6to4 Address
+	 * @since 1.13.0
+	*/ public from6to4(): IPAddress<4> {
+		if (this.type !== 6 || this.rawData[0] !== 0x2002) throw new Error('Not a 6to4 Address')
+
+		return new IPAddress(new Uint8Array([ this.rawData[1] >> 8, this.rawData[1] & 0xFF, this.rawData[2] >> 8, this.rawData[2] & 0xFF ])) as IPAddress<4>
+	}
+
+	/**
+	 * Embed this IPv4 Address into a NAT64 Prefix (RFC 6052)
+	 * @example
+	 * ```
+	 * import { network } from "@rjweb/utils"
+	 * 
+	 * new network.IPAddress('192.0.2.33').toNAT64() // <IPAddress v6 64:ff9b::c000:221>
+	 * new network.IPAddress('192.0.2.33').toNAT64(new network.Subnet('2001:db8:122::/48')) // <IPAddress v6 2001:db8:122:c000:2:2100::>
+	 * ```
+	 * @throws If this is not an IPv4 Address or the prefix length is not 32, 40, 48, 56, 64 or 96
+	 * @default prefix = new Subnet('64:ff9b::/96')
+	 * @since 1.13.0
+	*/ public toNAT64(prefix: Subnet<6> = new Subnet('64:ff9b::/96', 6)): IPAddress<6> {
+		if (this.type !== 4) throw new Error('Not Expected Type')
+		if (!nat64Lengths.includes(prefix.netmask)) throw new Error('Invalid NAT64 Prefix Length')
+
+		const bytes = wordsToBytes(prefix.first().rawData)
+		bytes.fill(0, prefix.netmask / 8)
+
+		let position = prefix.netmask / 8
+		for (const octet of this.rawData) {
+			if (position === 8) position++
+			bytes[position++] = octet
+		}
+
+		return new IPAddress(bytesToWords(bytes)) as IPAddress<6>
+	}
+
+	/**
+	 * Extract the IPv4 Address embedded using a NAT64 Prefix (RFC 6052)
+	 * @example
+	 * ```
+	 * import { network } from "@rjweb/utils"
+	 * 
+	 * new network.IPAddress('64:ff9b::c000:221').fromNAT64() // <IPAddress v4 192.0.2.33>
+	 * new network.IPAddress('2001:db8:122:c000:2:2100::').fromNAT64(new network.Subnet('2001:db8:122::/48')) // <IPAddress v4 192.0.2.33>
+	 * ```
+	 * @throws If this Address is not inside the prefix or the prefix length is not 32, 40, 48, 56, 64 or 96
+	 * @default prefix = new Subnet('64:ff9b::/96')
+	 * @since 1.13.0
+	*/ public fromNAT64(prefix: Subnet<6> = new Subnet('64:ff9b::/96', 6)): IPAddress<4> {
+		if (!nat64Lengths.includes(prefix.netmask)) throw new Error('Invalid NAT64 Prefix Length')
+		if (!this.isIPv6() || !prefix.includes(this)) throw new Error('Not a NAT64 Address')
+
+		const bytes = wordsToBytes(this.rawData),
+			ip = new Uint8Array(4)
+
+		let position = prefix.netmask / 8
+		for (let i = 0; i < 4; i++) {
+			if (position === 8) position++
+			ip[i] = bytes[position++]
+		}
+
+		return new IPAddress(ip) as IPAddress<4>
+	}
+
+	/**
+	 * Get the normalized form of this IP, IPv4-mapped IPv6 Addresses are converted to IPv4
+	 * @example
+	 * ```
+	 * import { network } from "@rjweb/utils"
+	 * 
+	 * new network.IPAddress('::ffff:1.2.3.4').normalize() // <IPAddress v4 1.2.3.4>
+	 * new network.IPAddress('::1').normalize() // <IPAddress v6 ::1>
+	 * ```
+	 * @since 1.13.0
+	*/ public normalize(): IPAddress {
+		if (this.isIPv4Mapped()) return this.fromIPv4Mapped()
+
+		return this as IPAddress
+	}
+
 	/**
 	 * Whether this IP Equals another IP
+	 * 
+	 * With `normalize` IPv4-mapped IPv6 Addresses equal their IPv4 Address
+	 * @example
+	 * ```
+	 * import { network } from "@rjweb/utils"
+	 * 
+	 * new network.IPAddress('1.2.3.4').equals(new network.IPAddress('::ffff:1.2.3.4')) // false
+	 * new network.IPAddress('1.2.3.4').equals(new network.IPAddress('::ffff:1.2.3.4'), { normalize: true }) // true
+	 * ```
 	 * @since 1.8.5
-	*/ public equals(compareTo: IPAddress): compareTo is this {
+	*/ public equals(compareTo: IPAddress, options?: {
+		/**
+		 * Whether to normalize both IPs before comparing
+		 * @default false
+		 * @since 1.13.0
+		*/ normalize?: boolean
+	}): compareTo is this {
+		if (options?.normalize) return this.normalize().equals(compareTo.normalize())
 		if (compareTo.type !== this.type) return false
 
 		switch (this.type) {
@@ -625,6 +1065,105 @@ export const MAX_IPV4_LONG = 4294967295,
 		return true
 	}
 
+	/**
+	 * Get the Special-Purpose Range this IP belongs to (based on the IANA Special-Purpose Address Registries)
+	 * 
+	 * IPv4-mapped IPv6 Addresses are classified using the embedded IPv4 Address
+	 * @example
+	 * ```
+	 * import { network } from "@rjweb/utils"
+	 * 
+	 * new network.IPAddress('192.168.1.1').range() // 'private'
+	 * new network.IPAddress('::1').range() // 'loopback'
+	 * new network.IPAddress('2001:db8::1').range() // 'documentation'
+	 * new network.IPAddress('1.1.1.1').range() // 'unicast'
+	 * ```
+	 * @since 1.13.0
+	*/ public range(): IPRange {
+		return specialPurpose().lookup(this)?.range ?? 'unicast'
+	}
+
+	/**
+	 * Whether this IP is globally reachable (based on the IANA Special-Purpose Address Registries)
+	 * @example
+	 * ```
+	 * import { network } from "@rjweb/utils"
+	 * 
+	 * new network.IPAddress('1.1.1.1').isGlobal() // true
+	 * new network.IPAddress('10.0.0.1').isGlobal() // false
+	 * new network.IPAddress('::ffff:7f00:1').isGlobal() // false
+	 * new network.IPAddress('192.0.0.9').isGlobal() // true
+	 * ```
+	 * @since 1.13.0
+	*/ public isGlobal(): boolean {
+		return specialPurpose().lookup(this)?.global ?? true
+	}
+
+	/**
+	 * Whether this IP is a private IPv4 Address (RFC 1918)
+	 * @since 1.13.0
+	*/ public isPrivate(): boolean {
+		return this.range() === 'private'
+	}
+
+	/**
+	 * Whether this IP is a loopback Address (`127.0.0.0/8`, `::1`)
+	 * @since 1.13.0
+	*/ public isLoopback(): boolean {
+		return this.range() === 'loopback'
+	}
+
+	/**
+	 * Whether this IP is a link-local Address (`169.254.0.0/16`, `fe80::/10`)
+	 * @since 1.13.0
+	*/ public isLinkLocal(): boolean {
+		return this.range() === 'linkLocal'
+	}
+
+	/**
+	 * Whether this IP is in the Shared Address Space used for Carrier-Grade NAT (`100.64.0.0/10`)
+	 * @since 1.13.0
+	*/ public isCarrierGradeNAT(): boolean {
+		return this.range() === 'carrierGradeNat'
+	}
+
+	/**
+	 * Whether this IP is a multicast Address (`224.0.0.0/4`, `ff00::/8`)
+	 * @since 1.13.0
+	*/ public isMulticast(): boolean {
+		return this.range() === 'multicast'
+	}
+
+	/**
+	 * Whether this IP is reserved for Documentation (`192.0.2.0/24`, `198.51.100.0/24`, `203.0.113.0/24`, `2001:db8::/32`, `3fff::/20`)
+	 * @since 1.13.0
+	*/ public isDocumentation(): boolean {
+		return this.range() === 'documentation'
+	}
+
+	/**
+	 * Whether this IP is a unique-local IPv6 Address (`fc00::/7`)
+	 * @since 1.13.0
+	*/ public isUniqueLocal(): boolean {
+		return this.range() === 'uniqueLocal'
+	}
+
+	/**
+	 * Whether this IP is unspecified (`0.0.0.0/8`, `::`)
+	 * @since 1.13.0
+	*/ public isUnspecified(): boolean {
+		return this.range() === 'unspecified'
+	}
+
+	/**
+	 * Whether this IP is reserved (including the limited broadcast and benchmarking Addresses)
+	 * @since 1.13.0
+	*/ public isReserved(): boolean {
+		const range = this.range()
+
+		return range === 'reserved' || range === 'broadcast' || range === 'benchmarking'
+	}
+
 	protected toString(): string {
 		return this.usual()
 	}
@@ -634,6 +1173,281 @@ export const MAX_IPV4_LONG = 4294967295,
 	}
 }
 
+type IPTableNode<Value> = {
+	children: [IPTableNode<Value> | null, IPTableNode<Value> | null]
+	v4: [Subnet, Value] | null
+	v6: [Subnet, Value] | null
+}
+
+function mappedWords(ip: IPAddress): Uint16Array {
+	if (ip.isIPv6()) return ip.rawData
+
+	return new Uint16Array([ 0, 0, 0, 0, 0, 0xFFFF, (ip.rawData[0] << 8) | ip.rawData[1], (ip.rawData[2] << 8) | ip.rawData[3] ])
+}
+
+/**
+ * A Longest-Prefix-Match Table mapping Subnets to Values
+ * 
+ * IPv4 and IPv6 share one radix trie, IPv4 Subnets are stored as IPv4-mapped IPv6 Subnets (`::ffff:0:0/96`),
+ * so IPv4-mapped IPv6 Addresses match IPv4 Subnets and the other way around. Lookups take O(prefix length).
+ * @example
+ * ```
+ * import { network } from "@rjweb/utils"
+ * 
+ * const table = new network.IPTable<string>()
+ *   .set(new network.Subnet('10.0.0.0/8'), 'internal')
+ *   .set(new network.Subnet('10.1.0.0/16'), 'office')
+ *   .set(new network.Subnet('::/0'), 'internet')
+ * 
+ * table.lookup(new network.IPAddress('10.1.2.3')) // 'office'
+ * table.lookup(new network.IPAddress('10.2.2.3')) // 'internal'
+ * table.lookup(new network.IPAddress('::ffff:10.1.2.3')) // 'office'
+ * table.lookup(new network.IPAddress('2001:db8::1')) // 'internet'
+ * 
+ * for (const [ subnet, value ] of table) {
+ *   console.log(subnet.toString(), value)
+ * }
+ * ```
+ * @since 1.13.0
+ * @supports nodejs, browser
+*/ export class IPTable<Value> {
+	private root: IPTableNode<Value> = { children: [ null, null ], v4: null, v6: null }
+	private count = 0
+
+	private static bit(words: Uint16Array, index: number): 0 | 1 {
+		return ((words[index >> 4] >> (15 - (index & 15))) & 1) as 0 | 1
+	}
+
+	private static prefix(subnet: Subnet): number {
+		return subnet.isIPv4() ? 96 + subnet.netmask : subnet.netmask
+	}
+
+	private path(subnet: Subnet, create: boolean): IPTableNode<Value>[] | null {
+		const words = mappedWords(subnet.first()),
+			prefix = IPTable.prefix(subnet),
+			path = [ this.root ]
+
+		for (let i = 0; i < prefix; i++) {
+			const node = path[path.length - 1], bit = IPTable.bit(words, i)
+
+			if (!node.children[bit]) {
+				if (!create) return null
+				node.children[bit] = { children: [ null, null ], v4: null, v6: null }
+			}
+
+			path.push(node.children[bit]!)
+		}
+
+		return path
+	}
+
+	/**
+	 * The Amount of Subnets in this Table
+	 * @since 1.13.0
+	*/ public get size(): number {
+		return this.count
+	}
+
+	/**
+	 * Set the Value of a Subnet
+	 * @since 1.13.0
+	*/ public set(subnet: Subnet, value: Value): this {
+		const path = this.path(subnet, true)!,
+			node = path[path.length - 1],
+			key = subnet.isIPv4() ? 'v4' : 'v6'
+
+		if (!node[key]) this.count++
+		node[key] = [ new Subnet(subnet), value ]
+
+		return this
+	}
+
+	/**
+	 * Get the Value of an exact Subnet
+	 * @since 1.13.0
+	*/ public get(subnet: Subnet): Value | undefined {
+		const path = this.path(subnet, false)
+		if (!path) return undefined
+
+		return path[path.length - 1][subnet.isIPv4() ? 'v4' : 'v6']?.[1]
+	}
+
+	/**
+	 * Whether an exact Subnet is in this Table
+	 * @since 1.13.0
+	*/ public has(subnet: Subnet): boolean {
+		const path = this.path(subnet, false)
+		if (!path) return false
+
+		return !!path[path.length - 1][subnet.isIPv4() ? 'v4' : 'v6']
+	}
+
+	/**
+	 * Delete an exact Subnet from this Table
+	 * @returns Whether the Subnet was in the Table
+	 * @since 1.13.0
+	*/ public delete(subnet: Subnet): boolean {
+		const path = this.path(subnet, false),
+			key = subnet.isIPv4() ? 'v4' : 'v6'
+		if (!path || !path[path.length - 1][key]) return false
+
+		path[path.length - 1][key] = null
+		this.count--
+
+		for (let i = path.length - 1; i > 0; i--) {
+			const node = path[i]
+			if (node.v4 || node.v6 || node.children[0] || node.children[1]) break
+
+			const parent = path[i - 1]
+			parent.children[parent.children[0] === node ? 0 : 1] = null
+		}
+
+		return true
+	}
+
+	/**
+	 * Remove all Subnets from this Table
+	 * @since 1.13.0
+	*/ public clear(): void {
+		this.root = { children: [ null, null ], v4: null, v6: null }
+		this.count = 0
+	}
+
+	/**
+	 * Get the most specific Subnet and its Value that includes an IP
+	 * 
+	 * Entries of the same family as the IP are preferred when an IPv4 and an IPv6 Subnet cover the same prefix
+	 * @since 1.13.0
+	*/ public match(ip: IPAddress): [Subnet, Value] | null {
+		const words = mappedWords(ip),
+			preferred = ip.isIPv4() ? 'v4' : 'v6',
+			other = ip.isIPv4() ? 'v6' : 'v4'
+
+		let node: IPTableNode<Value> | null = this.root,
+			match: [Subnet, Value] | null = null
+
+		for (let i = 0; node; i++) {
+			const entry = node[preferred] ?? node[other]
+			if (entry) match = entry
+
+			if (i === 128) break
+			node = node.children[IPTable.bit(words, i)]
+		}
+
+		return match
+	}
+
+	/**
+	 * Get the Value of the most specific Subnet that includes an IP
+	 * @since 1.13.0
+	*/ public lookup(ip: IPAddress): Value | undefined {
+		return this.match(ip)?.[1]
+	}
+
+	/**
+	 * Iterate all Subnets and their Values, ordered by Address and Prefix
+	 * @since 1.13.0
+	*/ public *entries(): IterableIterator<[Subnet, Value]> {
+		const stack: IPTableNode<Value>[] = [ this.root ]
+
+		while (stack.length) {
+			const node = stack.pop()!
+
+			if (node.v4) yield node.v4
+			if (node.v6) yield node.v6
+
+			if (node.children[1]) stack.push(node.children[1])
+			if (node.children[0]) stack.push(node.children[0])
+		}
+	}
+
+	/**
+	 * Iterate all Subnets
+	 * @since 1.13.0
+	*/ public *keys(): IterableIterator<Subnet> {
+		for (const [ subnet ] of this.entries()) yield subnet
+	}
+
+	/**
+	 * Iterate all Values
+	 * @since 1.13.0
+	*/ public *values(): IterableIterator<Value> {
+		for (const [ , value ] of this.entries()) yield value
+	}
+
+	public [Symbol.iterator](): IterableIterator<[Subnet, Value]> {
+		return this.entries()
+	}
+
+	protected [inspectSymbol](): string {
+		return `<IPTable ${this.count}>`
+	}
+}
+
+export type IPRange = 'unicast' | 'unspecified' | 'private' | 'carrierGradeNat' | 'loopback' | 'linkLocal' | 'reserved' | 'documentation' | 'benchmarking' | 'multicast' | 'broadcast' | 'uniqueLocal' | 'nat64' | 'teredo' | '6to4'
+
+/**
+ * IANA IPv4 / IPv6 Special-Purpose Address Registries (+ multicast), `global` is "Globally Reachable"
+*/ const specialPurposeRanges: [subnet: string, range: IPRange, global: boolean][] = [
+	['0.0.0.0/8', 'unspecified', false],
+	['10.0.0.0/8', 'private', false],
+	['100.64.0.0/10', 'carrierGradeNat', false],
+	['127.0.0.0/8', 'loopback', false],
+	['169.254.0.0/16', 'linkLocal', false],
+	['172.16.0.0/12', 'private', false],
+	['192.0.0.0/24', 'reserved', false],
+	['192.0.0.9/32', 'reserved', true],
+	['192.0.0.10/32', 'reserved', true],
+	['192.0.2.0/24', 'documentation', false],
+	['192.31.196.0/24', 'reserved', true],
+	['192.52.193.0/24', 'reserved', true],
+	['192.88.99.0/24', 'reserved', false],
+	['192.168.0.0/16', 'private', false],
+	['192.175.48.0/24', 'reserved', true],
+	['198.18.0.0/15', 'benchmarking', false],
+	['198.51.100.0/24', 'documentation', false],
+	['203.0.113.0/24', 'documentation', false],
+	['224.0.0.0/4', 'multicast', false],
+	['240.0.0.0/4', 'reserved', false],
+	['255.255.255.255/32', 'broadcast', false],
+
+	['::/128', 'unspecified', false],
+	['::1/128', 'loopback', false],
+	['64:ff9b::/96', 'nat64', true],
+	['64:ff9b:1::/48', 'nat64', false],
+	['100::/64', 'reserved', false],
+	['2001::/23', 'reserved', false],
+	['2001::/32', 'teredo', false],
+	['2001:1::1/128', 'reserved', true],
+	['2001:1::2/128', 'reserved', true],
+	['2001:2::/48', 'benchmarking', false],
+	['2001:3::/32', 'reserved', true],
+	['2001:4:112::/48', 'reserved', true],
+	['2001:20::/28', 'reserved', true],
+	['2001:30::/28', 'reserved', true],
+	['2001:db8::/32', 'documentation', false],
+	['2002::/16', '6to4', false],
+	['2620:4f:8000::/48', 'reserved', true],
+	['3fff::/20', 'documentation', false],
+	['5f00::/16', 'reserved', false],
+	['fc00::/7', 'uniqueLocal', false],
+	['fe80::/10', 'linkLocal', false],
+	['ff00::/8', 'multicast', false]
+]
+
+let specialPurposeTable: IPTable<{ range: IPRange, global: boolean }> | null = null
+
+function specialPurpose(): IPTable<{ range: IPRange, global: boolean }> {
+	if (specialPurposeTable) return specialPurposeTable
+
+	specialPurposeTable = new IPTable()
+	for (const [ subnet, range, global ] of specialPurposeRanges) {
+		specialPurposeTable.set(new Subnet(subnet), { range, global })
+	}
+
+	return specialPurposeTable
+}
+
 /**
  * Check the Connection (Time) to a Host + Port
  * @example
@@ -679,6 +1493,203 @@ export const MAX_IPV4_LONG = 4294967295,
 	})
 }
 
+export type ProbeTLS = {
+	/**
+	 * The negotiated TLS Protocol
+	 * @since 1.13.0
+	*/ protocol: string | null
+	/**
+	 * Whether the Certificate was verified against the trusted CAs
+	 * @since 1.13.0
+	*/ authorized: boolean
+	/**
+	 * The Reason the Certificate could not be verified
+	 * @since 1.13.0
+	*/ authorizationError: string | null
+	/**
+	 * When the Certificate expires
+	 * @since 1.13.0
+	*/ validTo: Date
+	/**
+	 * Time until the Certificate expires in ms (negative if expired)
+	 * @since 1.13.0
+	*/ expiresIn: number
+	/**
+	 * The Subject Alternative Names of the Certificate
+	 * @since 1.13.0
+	*/ subjectAltNames: string[]
+}
+
+type ProbeOutcome = {
+	status: 'open'
+	tls: ProbeTLS | null
+} | {
+	status: 'refused' | 'timeout' | 'unreachable' | 'error'
+	error: string
+}
+
+export type ProbeResult = {
+	host: string
+	port: number
+	/**
+	 * ms it took to connect (or fail)
+	 * @since 1.13.0
+	*/ time: number
+} & ProbeOutcome
+
+const unreachableCodes = Object.freeze(['EHOSTUNREACH', 'ENETUNREACH', 'EHOSTDOWN', 'ENETDOWN', 'ENOTFOUND', 'EAI_AGAIN', 'EADDRNOTAVAIL'])
+
+function probeOne(host: string, port: number, timeout: number, secure: false | tls.ConnectionOptions, active: Set<() => void>): Promise<ProbeResult> {
+	return new Promise((resolve) => {
+		const start = performance.now()
+		let connection: net.Socket
+
+		try {
+			connection = secure
+				? tls.connect({ rejectUnauthorized: false, servername: isIP(host) ? undefined : host, ...secure, host, port })
+				: net.createConnection({ host, port, keepAlive: false })
+		} catch (err) {
+			return resolve({ host, port, time: performance.now() - start, status: 'error', error: err instanceof Error ? err.message : String(err) })
+		}
+
+		let done = false
+
+		const finish = (result: ProbeOutcome) => {
+			if (done) return
+			done = true
+
+			clearTimeout(timer)
+			active.delete(abort)
+			connection.destroy()
+
+			resolve({ host, port, time: performance.now() - start, ...result })
+		}
+
+		const timer = setTimeout(() => finish({ status: 'timeout', error: `Timed out after ${timeout}ms` }), timeout),
+			abort = () => finish({ status: 'error', error: 'Probe was aborted' })
+
+		active.add(abort)
+
+		connection
+			.once(secure ? 'secureConnect' : 'connect', () => {
+				if (!(connection instanceof tls.TLSSocket)) return finish({ status: 'open', tls: null })
+
+				const certificate = connection.getPeerCertificate(),
+					validTo = new Date(certificate.valid_to)
+
+				finish({
+					status: 'open',
+					tls: {
+						protocol: connection.getProtocol(),
+						authorized: connection.authorized,
+						authorizationError: connection.authorizationError ? String(connection.authorizationError) : null,
+						validTo,
+						expiresIn: validTo.getTime() - Date.now(),
+						subjectAltNames: certificate.subjectaltname
+							? certificate.subjectaltname.split(', ').map((name) => name.slice(name.indexOf(':') + 1))
+							: []
+					}
+				})
+			})
+			.once('error', (err: NodeJS.ErrnoException) => {
+				if (err.code === 'ECONNREFUSED') finish({ status: 'refused', error: err.message })
+				else if (err.code === 'ETIMEDOUT') finish({ status: 'timeout', error: err.message })
+				else if (err.code && unreachableCodes.includes(err.code)) finish({ status: 'unreachable', error: err.message })
+				else finish({ status: 'error', error: err.message })
+			})
+	})
+}
+
+/**
+ * Probe many Hosts / Subnets + Ports concurrently, results are streamed as they finish
+ * 
+ * Unlike `network.test` failures are reported as `refused`, `timeout`, `unreachable` or `error`,
+ * with `tls` the TLS Handshake is completed too and the Certificate is reported.
+ * @example
+ * ```
+ * import { network } from "@rjweb/utils"
+ * 
+ * for await (const result of network.probe([
+ *   { host: '1.1.1.1', port: 443 },
+ *   { host: new network.Subnet('10.0.0.0/24'), port: [22, 80] }
+ * ], { concurrency: 100, timeout: 2000 })) {
+ *   console.log(result.host, result.port, result.status) // 1.1.1.1 443 open
+ * }
+ * 
+ * for await (const result of network.probe({ host: 'google.com', port: 443 }, { tls: true })) {
+ *   if (result.status === 'open') console.log(result.tls?.validTo, result.tls?.subjectAltNames) // 2024-07-01T08:00:00.000Z ['*.google.com', ...]
+ * }
+ * ```
+ * @throws {RangeError} If `concurrency` is less than 1
+ * @since 1.13.0
+ * @supports nodejs
+*/ export async function* probe(targets: ArrayOrNot<{ host: string | IPAddress | Subnet, port: ArrayOrNot<number> }>, options?: {
+	/**
+	 * The maximum Amount of Connections at once
+	 * @default 50
+	 * @since 1.13.0
+	*/ concurrency?: number
+	/**
+	 * The timeout for each Connection in ms
+	 * @default 10000
+	 * @since 1.13.0
+	*/ timeout?: number
+	/**
+	 * Whether to complete a TLS Handshake (certificates are not rejected, see `authorized`)
+	 * @default false
+	 * @since 1.13.0
+	*/ tls?: boolean | tls.ConnectionOptions
+}): AsyncGenerator<ProbeResult> {
+	const pOptions = {
+		concurrency: options?.concurrency ?? 50,
+		timeout: options?.timeout ?? 10000,
+		tls: typeof options?.tls === 'object' ? options.tls : options?.tls ? {} : false as const
+	}
+
+	const pairs = (function* () {
+		for (const target of Array.isArray(targets) ? targets : [targets]) {
+			const ports = Array.isArray(target.port) ? target.port : [target.port]
+
+			if (target.host instanceof Subnet) {
+				for (const ip of target.host) {
+					for (const port of ports) yield [ ip.long(), port ] as const
+				}
+			} else {
+				for (const port of ports) yield [ typeof target.host === 'string' ? target.host : target.host.long(), port ] as const
+			}
+		}
+	})()
+
+	if (!(pOptions.concurrency >= 1)) throw new RangeError('Concurrency must be at least 1')
+
+	const running = new Map<number, Promise<[number, ProbeResult]>>(),
+		active = new Set<() => void>()
+	let id = 0
+
+	const fill = () => {
+		while (running.size < pOptions.concurrency) {
+			const pair = pairs.next()
+			if (pair.done) break
+
+			const current = id++
+			running.set(current, probeOne(pair.value[0], pair.value[1], pOptions.timeout, pOptions.tls, active).then((result) => [ current, result ]))
+		}
+	}
+
+	try {
+		fill()
+		while (running.size) {
+			const [ finished, result ] = await Promise.race(running.values())
+			running.delete(finished)
+
+			fill()
+			yield result
+		}
+	} finally {
+		for (const abort of Array.from(active)) abort()
+	}
+}
+
 function checkV4(ip: string): boolean {
 	const segments = ip.split('.')
 	if (segments.length > 4) return false
@@ -722,7 +1733,10 @@ function checkV4(ip: string): boolean {
 	}
 
 	if (type !== 'v4') {
-		const segments = ip.split(':')
+		const expanded = expandEmbeddedIPv4(ip)
+		if (expanded === null) return false
+
+		const segments = expanded.split(':')
 		if (segments.length > 8 || segments.length === 2) return false
 
 		if (segments.length > 1) {
@@ -827,33 +1841,217 @@ function checkV4(ip: string): boolean {
 	}
 }
 
+export type DownloadProgress = {
+	/**
+	 * The Amount of Bytes written to the File (including resumed Bytes)
+	 * @since 1.13.0
+	*/ bytes: number
+	/**
+	 * The total Amount of Bytes, null if unknown
+	 * @since 1.13.0
+	*/ total: number | null
+	/**
+	 * The Download Rate in Bytes per Second
+	 * @since 1.13.0
+	*/ rate: number
+}
+
 /**
- * Download a resource to the filesystem using `fetch` and `fs.createWriteStream`, default method is `GET`
+ * An Error thrown when `network.download` fails
  * @example
  * ```
  * import { network } from "@rjweb/utils"
  * 
+ * try {
+ *   await network.download('https://example.com/app.tar.gz', '/tmp/app.tar.gz', {}, { hash: { expected: 'a3f1...' } })
+ * } catch (err) {
+ *   if (err instanceof network.DownloadError && !err.transient) console.log('download will not succeed when retried')
+ * }
+ * ```
+ * @since 1.13.0
+*/ export class DownloadError extends Error {
+	/**
+	 * Create a new Download Error
+	 * @since 1.13.0
+	*/ constructor(
+		message: string,
+		/** Whether the Failure is transient (network errors, 408, 429 & 5xx) and was retried */ public transient: boolean
+	) {
+		super(message)
+	}
+}
+
+/**
+ * Download a resource to the filesystem using `fetch` and `fs.createWriteStream`, default method is `GET`
+ * 
+ * The resource is written to a temporary file first which is renamed to `file` once the download
+ * finished (and the hash matched), partial temporary files are resumed using HTTP Range Requests and
+ * transient errors (network errors, 408, 429 & 5xx) are retried with exponential backoff.
+ * @example
+ * ```
+ * import { network, stream } from "@rjweb/utils"
+ * 
  * await network.download('http://speedtest.belwue.net/random-1G', '/tmp/1gb.test') // 14314.149778962135
+ * await network.download('https://example.com/backup.tar.enc', '/tmp/backup.tar', {}, { transform: stream.decrypt('secret') }) // 2314.149778962135
+ * await network.download('https://example.com/app.tar.gz', '/tmp/app.tar.gz', {}, {
+ *   retries: 5,
+ *   hash: { algorithm: 'sha256', expected: 'a3f1...' },
+ *   progress: ({ bytes, total, rate }) => console.log(bytes, total, rate)
+ * }) // 4314.149778962135
  * ```
  * @returns Time it took to download in ms
+ * @throws {DownloadError} If the download failed after all retries or the hash does not match
  * @since 1.8.5
  * @supports nodejs
-*/ export async function download(url: string, file: fs.PathLike, options?: RequestInit): Promise<number> {
+*/ export async function download(url: string, file: fs.PathLike, options?: RequestInit, settings?: {
+	/**
+	 * A Transform to pass the Response Body through before writing (for example `stream.decrypt`), disables resuming
+	 * @since 1.13.0
+	*/ transform?: Transform
+	/**
+	 * Whether to resume a partial temporary File using HTTP Range Requests
+	 * @default true
+	 * @since 1.13.0
+	*/ resume?: boolean
+	/**
+	 * The Amount of Retries on transient Errors
+	 * @default 3
+	 * @since 1.13.0
+	*/ retries?: number
+	/**
+	 * The Base Backoff in ms, doubled after each attempt
+	 * @default 1000
+	 * @since 1.13.0
+	*/ backoff?: number
+	/**
+	 * The temporary File to download into
+	 * @default `${file}.download`
+	 * @since 1.13.0
+	*/ temp?: fs.PathLike
+	/**
+	 * The Hash the downloaded File must match
+	 * @since 1.13.0
+	*/ hash?: {
+		/**
+		 * The Algorithm to use
+		 * @default "sha256"
+		 * @since 1.13.0
+		*/ algorithm?: string
+		/**
+		 * The Salt to add
+		 * @since 1.13.0
+		*/ salt?: string
+		/**
+		 * The Encoding of the expected Hash
+		 * @default "hex"
+		 * @since 1.13.0
+		*/ output?: crypto.BinaryToTextEncoding
+		/**
+		 * The expected Hash
+		 * @since 1.13.0
+		*/ expected: string
+	}
+	/**
+	 * Callback for Progress Reports
+	 * @since 1.13.0
+	*/ progress?: (progress: DownloadProgress) => any
+}): Promise<number> {
 	const startTime = performance.now()
 
-	const response = await fetch(url, options)
-	if (!response.body) throw new Error('No Response Body')
+	const pSettings = {
+		resume: (settings?.resume ?? true) && !settings?.transform,
+		retries: settings?.retries ?? 3,
+		backoff: settings?.backoff ?? 1000,
+		temp: settings?.temp ?? (file instanceof URL ? new URL(file.href.concat('.download')) : `${file}.download`)
+	}
 
-	const writeStream = fs.createWriteStream(file)
+	for (let attempt = 0; ; attempt++) {
+		try {
+			const offset = pSettings.resume ? await fs.promises.stat(pSettings.temp).then((stat) => stat.size).catch(() => 0) : 0,
+				headers = new Headers(options?.headers)
 
-	try {
-		for await (const chunk of response.body) {
-			await new Promise<void>((resolve) => writeStream.write(chunk, () => resolve()))
-		}
+			if (offset) headers.set('range', `bytes=${offset}-`)
 
-		return performance.now() - startTime
-	} finally {
-		writeStream.close()
+			const response = await fetch(url, { ...options, headers }).catch((err) => {
+				if (options?.signal?.aborted) throw err
+				throw new DownloadError(String(err?.message ?? err), true)
+			})
+
+			const complete = response.status === 416 && offset
+				? parseInt(response.headers.get('content-range')?.match(/^bytes \*\/(\d+)$/)?.[1] ?? '') === offset
+				: false
+
+			if (response.status === 416 && offset && !complete) {
+				await fs.promises.rm(pSettings.temp, { force: true })
+				throw new DownloadError('Range Not Satisfiable', true)
+			}
+
+			if (!complete) {
+				if (!response.ok) throw new DownloadError(`Unexpected Status ${response.status}`, response.status === 408 || response.status === 429 || response.status >= 500)
+				if (!response.body) throw new DownloadError('No Response Body', false)
+
+				const resumed = response.status === 206 ? offset : 0,
+					length = parseInt(response.headers.get('content-length') ?? ''),
+					total = isNaN(length) || settings?.transform ? null : resumed + length,
+					attemptStart = performance.now()
+
+				const writeStream = fs.createWriteStream(pSettings.temp, { flags: resumed ? 'a' : 'w' })
+				let writeError: DownloadError | null = null
+
+				const failed = new Promise<never>((_, reject) => writeStream.once('error', (err) => reject(writeError = new DownloadError(err.message, false))))
+				failed.catch(() => { })
+
+				try {
+					const body: AsyncIterable<Uint8Array> = settings?.transform ? settings.transform(response.body) : response.body
+					let bytes = resumed
+
+					for await (const chunk of body) {
+						await Promise.race([
+							new Promise<void>((resolve, reject) => writeStream.write(chunk, (err) => err ? reject(new DownloadError(err.message, false)) : resolve())),
+							failed
+						])
+						bytes += chunk.length
+
+						if (settings?.progress) settings.progress({
+							bytes, total,
+							rate: (bytes - resumed) / ((performance.now() - attemptStart) / 1000)
+						})
+					}
+				} catch (err: any) {
+					if (err instanceof DownloadError || options?.signal?.aborted || settings?.transform) throw err
+					throw new DownloadError(String(err?.message ?? err), true)
+				} finally {
+					await new Promise((resolve) => writeStream.close(resolve))
+				}
+
+				if (writeError) throw writeError
+			}
+
+			if (settings?.hash) {
+				const output = settings.hash.output ?? 'hex'
+				const digest = await filesystem.hash(pSettings.temp, {
+					algorithm: settings.hash.algorithm ?? 'sha256',
+					salt: settings.hash.salt,
+					output
+				})
+
+				if (output === 'hex' ? digest !== settings.hash.expected.toLowerCase() : digest !== settings.hash.expected) {
+					await fs.promises.rm(pSettings.temp, { force: true })
+					throw new DownloadError('Hash Mismatch', false)
+				}
+			}
+
+			await fs.promises.rename(pSettings.temp, file)
+
+			return performance.now() - startTime
+		} catch (err) {
+			if (!(err instanceof DownloadError) || !err.transient || attempt >= pSettings.retries) {
+				if (!pSettings.resume) await fs.promises.rm(pSettings.temp, { force: true })
+				throw err
+			}
+
+			await time.wait(pSettings.backoff * 2 ** attempt)
+		}
 	}
 }
 
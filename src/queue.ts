@@ -1,7 +1,77 @@
-import { DeepRequired, array } from "."
+import * as fs from "fs"
+import * as crypto from "crypto"
+import { filesystem } from "."
 
 type Function = (...args: any[]) => any
 
+type QueueItem = {
+	fn: Function
+	priority: number
+	timeout: number
+	retry: Required<QueueRetry>
+	attempt: number
+	delay: ReturnType<typeof setTimeout> | null
+	signal: AbortSignal | null
+	abort: null | (() => void)
+	callback: null | ((type: 'resolve' | 'reject', data: any) => void)
+}
+
+export type QueueRetry = {
+	/**
+	 * The Maximum Amount of Attempts, including the first one
+	 * @default 1
+	 * @since 1.13.0
+	*/ attempts?: number
+	/**
+	 * The Delay in ms before the first Retry
+	 * @default 1000
+	 * @since 1.13.0
+	*/ delay?: number
+	/**
+	 * The Factor the Delay is multiplied with after every Retry
+	 * @default 2
+	 * @since 1.13.0
+	*/ factor?: number
+	/**
+	 * The Maximum Delay in ms between Retries
+	 * @default 30000
+	 * @since 1.13.0
+	*/ maxDelay?: number
+	/**
+	 * Whether to randomize each Delay between 50% and 100% of its Value
+	 * @default true
+	 * @since 1.13.0
+	*/ jitter?: boolean
+	/**
+	 * Decide whether an Error should be retried, not called for the final Attempt
+	 * @default () => true
+	 * @since 1.13.0
+	*/ when?: (error: unknown, attempt: number) => boolean
+}
+
+export type QueueItemOptions = {
+	/**
+	 * The Priority of this function, higher priorities run first, equal priorities run in insertion order
+	 * @default 0
+	 * @since 1.13.0
+	*/ priority?: number
+	/**
+	 * The Time in ms after which this function call is considered failed, overrides the Queue timeout (0 to disable)
+	 * @default Queue Timeout
+	 * @since 1.13.0
+	*/ timeout?: number
+	/**
+	 * Signal to cancel this function while it is still queued, functions that already started are not affected
+	 * @default null
+	 * @since 1.13.0
+	*/ signal?: AbortSignal
+	/**
+	 * The Retry Policy of this function, merged with the Queue Retry Policy
+	 * @default Queue Retry
+	 * @since 1.13.0
+	*/ retry?: QueueRetry
+}
+
 /**
  * A Queue to schedule function calls for later
  * @example
@@ -19,6 +89,31 @@ type Function = (...args: any[]) => any
  * mails.add(() => sendMail()) // will execute after 4000ms
  * mails.add(() => sendMail()) // will execute after 5000ms
  * mails.add(() => sendMail()) // will execute after 6000ms
+ * 
+ * const api = new queue.Queue({
+ *   wait: 0,
+ *   concurrency: 3,
+ *   rateLimit: { limit: 5, interval: 1000 },
+ *   timeout: 10000
+ * })
+ * 
+ * api.add(() => fetch('/report')) // 3 at once, 5 per second
+ * api.add(() => fetch('/urgent'), { priority: 10 }) // runs before lower priorities
+ * 
+ * api.pause()
+ * api.size // 0
+ * api.pending // 3
+ * api.resume()
+ * 
+ * await api.onIdle() // all functions finished
+ * 
+ * const jobs = new queue.Queue({
+ *   wait: 0,
+ *   retry: { attempts: 5, delay: 500, when: (err) => !(err instanceof TypeError) }
+ * })
+ * 
+ * jobs.error((fn, err, attempts) => console.error(`failed after ${attempts} attempts`, err))
+ * await jobs.addAndWaitForFinish(() => sendMail()) // rejects only after the last attempt
  * ```
  * @since 1.4.0
  * @supports nodejs, browser
@@ -28,36 +123,98 @@ type Function = (...args: any[]) => any
 	 * @default 5000
 	 * @since 1.4.0
 	*/ wait?: number
+	/**
+	 * How many function calls may run at the same time, `wait` applies to each of them
+	 * @default 1
+	 * @since 1.13.0
+	*/ concurrency?: number
+	/**
+	 * Token Bucket Rate Limit, allows `limit` function calls per `interval` ms with up to `burst` calls at once
+	 * @default null
+	 * @since 1.13.0
+	*/ rateLimit?: {
+		/**
+		 * The Amount of function calls per interval
+		 * @since 1.13.0
+		*/ limit: number
+		/**
+		 * The Interval in ms
+		 * @since 1.13.0
+		*/ interval: number
+		/**
+		 * The Amount of function calls that may be made at once after being idle
+		 * @default limit
+		 * @since 1.13.0
+		*/ burst?: number
+	} | null
+	/**
+	 * The Time in ms after which a function call is considered failed (0 to disable), the function itself is not stopped
+	 * @default 0
+	 * @since 1.13.0
+	*/ timeout?: number
+	/**
+	 * The Retry Policy for failing function calls, a function is only retried once it threw or timed out
+	 * @default { attempts: 1 }
+	 * @since 1.13.0
+	*/ retry?: QueueRetry
 }> {
-	private nextRunScheduled: boolean
-	private lastRun: number = 0
-	private queue: Function[] = []
-	private options: DeepRequired<Options>
-	private fnWaiters: [fn: Function, callback: (type: 'resolve' | 'reject', data: any) => void][] = []
-	private onFinish: null | ((fn: Function, result: unknown) => Promise<any> | any) = null
-	private onError: null | ((fn: Function, error: unknown) => Promise<any> | any) = null
+	private running: number = 0
+	private executing: number = 0
+	private paused: boolean = false
+	private queue: QueueItem[] = []
+	private delayed: Set<QueueItem> = new Set()
+	private idleWaiters: (() => void)[] = []
+	private drainWaiters: (() => void)[] = []
+	private options: {
+		wait: number
+		concurrency: number
+		rateLimit: { limit: number, interval: number, burst: number } | null
+		timeout: number
+		retry: Required<QueueRetry>
+	}
+
+	private tokens: number
+	private lastRefill: number = Date.now()
+	private scheduled: ReturnType<typeof setTimeout> | null = null
+	private onFinish: null | ((fn: Function, result: unknown, attempts: number) => Promise<any> | any) = null
+	private onError: null | ((fn: Function, error: unknown, attempts: number) => Promise<any> | any) = null
 
 	constructor(options?: Options) {
 		this.options = {
-			wait: options?.wait ?? 5000
-		} as any
+			wait: options?.wait ?? 5000,
+			concurrency: Math.max(options?.concurrency ?? 1, 1),
+			rateLimit: options?.rateLimit ? {
+				limit: options.rateLimit.limit,
+				interval: options.rateLimit.interval,
+				burst: options.rateLimit.burst ?? options.rateLimit.limit
+			} : null,
+			timeout: options?.timeout ?? 0,
+			retry: {
+				attempts: Math.max(options?.retry?.attempts ?? 1, 1),
+				delay: options?.retry?.delay ?? 1000,
+				factor: options?.retry?.factor ?? 2,
+				maxDelay: options?.retry?.maxDelay ?? 30000,
+				jitter: options?.retry?.jitter ?? true,
+				when: options?.retry?.when ?? (() => true)
+			}
+		}
 
-		this.nextRunScheduled = false
+		this.tokens = this.options.rateLimit?.burst ?? Infinity
 	}
 
 	/**
-	 * Callback for when a function call finishes successfully
+	 * Callback for when a function call finishes successfully, `attempts` includes the successful Attempt
 	 * @since 1.4.0
-	*/ public finish(callback: (fn: Function, result: unknown) => Promise<any> | any): this {
+	*/ public finish(callback: (fn: Function, result: unknown, attempts: number) => Promise<any> | any): this {
 		this.onFinish = callback
 
 		return this
 	}
 
 	/**
-	 * Callback for when a function call finishes in an error
+	 * Callback for when a function call finishes in an error after its last Attempt
 	 * @since 1.4.0
-	*/ public error(callback: (fn: Function, error: unknown) => Promise<any> | any): this {
+	*/ public error(callback: (fn: Function, error: unknown, attempts: number) => Promise<any> | any): this {
 		this.onError = callback
 
 		return this
@@ -70,20 +227,90 @@ type Function = (...args: any[]) => any
 		return this.options.wait as any
 	}
 
+	/**
+	 * The Amount of functions waiting to be run
+	 * @since 1.13.0
+	*/ public get size(): number {
+		return this.queue.length
+	}
+
+	/**
+	 * The Amount of functions currently running
+	 * @since 1.13.0
+	*/ public get pending(): number {
+		return this.executing
+	}
+
+	/**
+	 * Whether the Queue is paused
+	 * @since 1.13.0
+	*/ public get isPaused(): boolean {
+		return this.paused
+	}
+
+	/**
+	 * Pause the Queue, running functions finish but no new ones are started
+	 * @since 1.13.0
+	*/ public pause(): this {
+		this.paused = true
+
+		return this
+	}
+
+	/**
+	 * Resume the Queue after it was paused
+	 * @since 1.13.0
+	*/ public resume(): this {
+		if (!this.paused) return this
+
+		this.paused = false
+		this.schedule()
+
+		return this
+	}
+
+	/**
+	 * Remove all functions that have not started yet or wait for a Retry, their `addAndWaitForFinish` promises are rejected
+	 * @since 1.13.0
+	*/ public clear(): number {
+		const items = [ ...this.queue, ...this.delayed ]
+		this.queue = []
+
+		for (const item of items) {
+			this.release(item)
+			item.callback?.('reject', new Error('Queue was cleared'))
+		}
+
+		this.settle()
+
+		return items.length
+	}
+
+	/**
+	 * Wait until the Queue is empty and no function is running
+	 * @since 1.13.0
+	*/ public onIdle(): Promise<void> {
+		if (!this.queue.length && !this.delayed.size && !this.executing) return Promise.resolve()
+
+		return new Promise((resolve) => this.idleWaiters.push(resolve))
+	}
+
+	/**
+	 * Wait until every queued function has been started and no Retry is pending, running functions may not have finished yet
+	 * @since 1.13.0
+	*/ public drain(): Promise<void> {
+		if (!this.queue.length && !this.delayed.size) return Promise.resolve()
+
+		return new Promise((resolve) => this.drainWaiters.push(resolve))
+	}
+
 	/**
 	 * Add a function to run to the queue
 	 * @since 1.4.0
-	*/ public add(fn: Function): this {
-		this.queue.push(fn)
+	*/ public add(fn: Function, options?: QueueItemOptions): this {
+		if (options?.signal?.aborted) return this
 
-		if (this.lastRun + this.options.wait < Date.now() && !this.nextRunScheduled) {
-			this.nextRunScheduled = true
-			this.lastRun = Infinity
-			this.runNextQueueItem()
-		} else if (!this.nextRunScheduled) {
-			this.nextRunScheduled = true
-			setTimeout(() => this.runNextQueueItem(), Date.now() - this.lastRun + this.options.wait)
-		}
+		this.insert(this.createItem(fn, options, null))
 
 		return this
 	}
@@ -91,56 +318,727 @@ type Function = (...args: any[]) => any
 	/**
 	 * Add & Wait for the function to be finished
 	 * @since 1.4.1
-	*/ public addAndWaitForFinish<Fn extends Function>(fn: Fn): Promise<Awaited<ReturnType<Fn>>> {
+	*/ public addAndWaitForFinish<Fn extends Function>(fn: Fn, options?: QueueItemOptions): Promise<Awaited<ReturnType<Fn>>> {
 		return new Promise((resolve, reject) => {
-			this.fnWaiters.push([
-				fn, (type, data) => {
-					if (type === 'resolve') return resolve(data)
-					else return reject(data)
-				}
-			])
-
-			this.add(fn)
+			if (options?.signal?.aborted) return reject(options.signal.reason)
+
+			this.insert(this.createItem(fn, options, (type, data) => {
+				if (type === 'resolve') return resolve(data)
+				else return reject(data)
+			}))
 		})
 	}
 
-	private async runNextQueueItem() {
-		const item = this.queue[0]
-		this.queue = this.queue.slice(1)
+	private createItem(fn: Function, options: QueueItemOptions | undefined, callback: QueueItem['callback']): QueueItem {
+		const item: QueueItem = {
+			fn,
+			priority: options?.priority ?? 0,
+			timeout: options?.timeout ?? this.options.timeout,
+			retry: { ...this.options.retry },
+			attempt: 0,
+			delay: null,
+			signal: options?.signal ?? null,
+			abort: null,
+			callback
+		}
+
+		for (const [ key, value ] of Object.entries(options?.retry ?? {})) {
+			if (value !== undefined) (item.retry as any)[key] = value
+		}
+
+		if (item.signal) {
+			const signal = item.signal
+
+			item.abort = () => {
+				const position = this.queue.indexOf(item)
+				if (position === -1 && !this.delayed.has(item)) return
+
+				if (position !== -1) this.queue.splice(position, 1)
+				this.release(item)
+				item.callback?.('reject', signal.reason)
+				this.settle()
+			}
+
+			signal.addEventListener('abort', item.abort, { once: true })
+		}
+
+		return item
+	}
+
+	private insert(item: QueueItem) {
+		let index = this.queue.length
+		while (index > 0 && this.queue[index - 1].priority < item.priority) index--
+
+		this.queue.splice(index, 0, item)
+		this.schedule()
+	}
+
+	private retryDelay(item: QueueItem): number {
+		const { delay, factor, maxDelay, jitter } = item.retry,
+			base = Math.min(delay * factor ** (item.attempt - 1), maxDelay)
+
+		return jitter ? base * (0.5 + Math.random() / 2) : base
+	}
+
+	private release(item: QueueItem) {
+		if (item.abort) item.signal?.removeEventListener('abort', item.abort)
+		if (item.delay) clearTimeout(item.delay)
+
+		this.delayed.delete(item)
+		item.abort = null
+		item.delay = null
+	}
+
+	private settle() {
+		if (!this.queue.length && !this.delayed.size) for (const resolve of this.drainWaiters.splice(0)) resolve()
+		if (!this.queue.length && !this.delayed.size && !this.executing) for (const resolve of this.idleWaiters.splice(0)) resolve()
+	}
+
+	private refill() {
+		if (!this.options.rateLimit) return
+
+		const now = Date.now(),
+			{ limit, interval, burst } = this.options.rateLimit
+
+		this.tokens = Math.min(burst, this.tokens + (now - this.lastRefill) * limit / interval)
+		this.lastRefill = now
+	}
+
+	private schedule() {
+		if (this.scheduled || this.paused) return
+
+		while (this.queue.length && this.running < this.options.concurrency) {
+			this.refill()
+			if (this.options.rateLimit && this.tokens < 1) {
+				const { limit, interval } = this.options.rateLimit
+
+				this.scheduled = setTimeout(() => {
+					this.scheduled = null
+					this.schedule()
+				}, Math.ceil((1 - this.tokens) * interval / limit))
+
+				return
+			}
+
+			const item = this.queue.shift()!
+
+			this.tokens--
+			this.running++
+			this.executing++
+			this.runQueueItem(item)
+		}
+
+		this.settle()
+	}
+
+	private async runQueueItem(item: QueueItem) {
+		let timer: ReturnType<typeof setTimeout> | null = null
+		item.attempt++
 
 		try {
-			const result = await Promise.resolve(item())
+			const result = await (item.timeout > 0 ? Promise.race([
+				new Promise((resolve) => resolve(item.fn())),
+				new Promise<never>((_, reject) => {
+					timer = setTimeout(() => reject(new Error(`Queue function timed out after ${item.timeout}ms`)), item.timeout)
+				})
+			]) : new Promise((resolve) => resolve(item.fn())))
+
+			this.release(item)
+
 			if (this.onFinish) try {
-				this.onFinish(item, result)
+				this.onFinish(item.fn, result, item.attempt)
 			} catch { }
 
-			const waiter = this.fnWaiters.find(([ fn ]) => Object.is(fn, item))
-			if (waiter) {
-				const [ _, callback ] = waiter
-
-				callback('resolve', result)
-				this.fnWaiters = array.remove(this.fnWaiters, 'value', waiter)
-			}
+			item.callback?.('resolve', result)
 		} catch (err) {
-			if (this.onError) try {
-				this.onError(item, err)
+			let retry = false
+			if (item.attempt < item.retry.attempts && !item.signal?.aborted) try {
+				retry = item.retry.when(err, item.attempt)
 			} catch { }
 
-			const waiter = this.fnWaiters.find(([ fn ]) => Object.is(fn, item))
-			if (waiter) {
-				const [ _, callback ] = waiter
+			if (retry) {
+				this.delayed.add(item)
+				item.delay = setTimeout(() => {
+					item.delay = null
+					this.delayed.delete(item)
+					this.insert(item)
+				}, this.retryDelay(item))
+			} else {
+				this.release(item)
+
+				if (this.onError) try {
+					this.onError(item.fn, err, item.attempt)
+				} catch { }
 
-				callback('reject', err)
-				this.fnWaiters = array.remove(this.fnWaiters, 'value', waiter)
+				item.callback?.('reject', err)
 			}
 		} finally {
-			this.nextRunScheduled = false
-			this.lastRun = Date.now()
+			if (timer) clearTimeout(timer)
+
+			this.executing--
+			this.settle()
+
+			if (this.options.wait > 0) await new Promise((resolve) => setTimeout(resolve, this.options.wait))
+
+			this.running--
+			this.schedule()
+		}
+	}
+}
+
+type KeyedLane = {
+	queue: Queue<{}>
+	timer: ReturnType<typeof setTimeout> | null
+	watching: boolean
+}
+
+/**
+ * A Queue that runs function calls one at a time per Key but in parallel across Keys
+ * 
+ * Lanes are created when a function is added for a new Key and removed once they were idle for `idleTimeout` ms
+ * (at least `wait` ms, so the wait between calls of a Key is kept).
+ * @example
+ * ```
+ * import { queue } from "@rjweb/utils"
+ * 
+ * const users = new queue.KeyedQueue({
+ *   wait: 0,
+ *   maxLanes: 10
+ * })
+ * 
+ * users.add(user.id, () => updateBalance(user.id)) // runs right away
+ * users.add(user.id, () => updateBalance(user.id)) // runs after the first call of this user finished
+ * users.add(other.id, () => updateBalance(other.id)) // runs in parallel to the first call
+ * 
+ * await users.onIdle()
+ * ```
+ * @since 1.13.0
+ * @supports nodejs, browser
+*/ export class KeyedQueue<const Options extends {
+	/**
+	 * Time to wait between each function call of the same Key
+	 * @default 5000
+	 * @since 1.13.0
+	*/ wait?: number
+	/**
+	 * How many Lanes may run a function at the same time
+	 * @default Infinity
+	 * @since 1.13.0
+	*/ maxLanes?: number
+	/**
+	 * Time in ms after which an idle Lane is removed, never shorter than `wait`
+	 * @default 0
+	 * @since 1.13.0
+	*/ idleTimeout?: number
+}> {
+	private lanes: Map<string | number, KeyedLane> = new Map()
+	private running: number = 0
+	private waiters: (() => void)[] = []
+	private options: {
+		wait: number
+		maxLanes: number
+		idleTimeout: number
+	}
+
+	private onFinish: null | ((fn: Function, result: unknown, key: string | number) => Promise<any> | any) = null
+	private onError: null | ((fn: Function, error: unknown, key: string | number) => Promise<any> | any) = null
+
+	constructor(options?: Options) {
+		this.options = {
+			wait: options?.wait ?? 5000,
+			maxLanes: Math.max(options?.maxLanes ?? Infinity, 1),
+			idleTimeout: options?.idleTimeout ?? 0
+		}
+	}
+
+	/**
+	 * Callback for when a function call finishes successfully
+	 * @since 1.13.0
+	*/ public finish(callback: (fn: Function, result: unknown, key: string | number) => Promise<any> | any): this {
+		this.onFinish = callback
+
+		return this
+	}
+
+	/**
+	 * Callback for when a function call finishes in an error
+	 * @since 1.13.0
+	*/ public error(callback: (fn: Function, error: unknown, key: string | number) => Promise<any> | any): this {
+		this.onError = callback
+
+		return this
+	}
+
+	/**
+	 * Get the Wait Duration of this Queue
+	 * @since 1.13.0
+	*/ public getWaitDuration(): Options['wait'] extends number ? Options['wait'] : 5000 {
+		return this.options.wait as any
+	}
+
+	/**
+	 * The Amount of Lanes that currently exist
+	 * @since 1.13.0
+	*/ public get size(): number {
+		return this.lanes.size
+	}
+
+	/**
+	 * The Amount of functions waiting to be run across all Lanes
+	 * @since 1.13.0
+	*/ public get pending(): number {
+		let pending = 0
+		for (const lane of this.lanes.values()) pending += lane.queue.size + lane.queue.pending
+
+		return pending
+	}
+
+	/**
+	 * Check whether a Lane exists for a Key
+	 * @since 1.13.0
+	*/ public has(key: string | number): boolean {
+		return this.lanes.has(key)
+	}
+
+	/**
+	 * Add a function to run to the Lane of a Key
+	 * @since 1.13.0
+	*/ public add(key: string | number, fn: Function): this {
+		this.lane(key).add(this.wrap(key, fn))
+
+		return this
+	}
+
+	/**
+	 * Add & Wait for the function to be finished
+	 * @since 1.13.0
+	*/ public addAndWaitForFinish<Fn extends Function>(key: string | number, fn: Fn): Promise<Awaited<ReturnType<Fn>>> {
+		return this.lane(key).addAndWaitForFinish(this.wrap(key, fn))
+	}
+
+	/**
+	 * Wait until every Lane is empty and no function is running
+	 * @since 1.13.0
+	*/ public async onIdle(): Promise<void> {
+		while (this.pending) {
+			await Promise.all(Array.from(this.lanes.values()).map((lane) => lane.queue.onIdle()))
+		}
+	}
 
-			if (this.queue.length) {
-				this.nextRunScheduled = true
-				setTimeout(() => this.runNextQueueItem(), this.options.wait)
+	private lane(key: string | number): Queue<{}> {
+		let lane = this.lanes.get(key)
+		if (!lane) {
+			lane = {
+				queue: new Queue({ wait: this.options.wait }),
+				timer: null,
+				watching: false
 			}
+
+			this.lanes.set(key, lane)
+		}
+
+		if (lane.timer) clearTimeout(lane.timer)
+		lane.timer = null
+
+		if (!lane.watching) {
+			const current = lane
+			current.watching = true
+
+			Promise.resolve().then(() => current.queue.onIdle()).then(() => {
+				current.watching = false
+
+				current.timer = setTimeout(() => {
+					if (this.lanes.get(key) === current && !current.queue.size && !current.queue.pending) this.lanes.delete(key)
+				}, Math.max(this.options.idleTimeout, this.options.wait))
+
+				if (typeof current.timer === 'object') current.timer.unref()
+			})
+		}
+
+		return lane.queue
+	}
+
+	private wrap<Fn extends Function>(key: string | number, fn: Fn): () => Promise<Awaited<ReturnType<Fn>>> {
+		return async() => {
+			if (this.running >= this.options.maxLanes) await new Promise<void>((resolve) => this.waiters.push(resolve))
+			else this.running++
+
+			try {
+				const result = await Promise.resolve(fn())
+				if (this.onFinish) try {
+					this.onFinish(fn, result, key)
+				} catch { }
+
+				return result
+			} catch (err) {
+				if (this.onError) try {
+					this.onError(fn, err, key)
+				} catch { }
+
+				throw err
+			} finally {
+				const next = this.waiters.shift()
+
+				if (next) next()
+				else this.running--
+			}
+		}
+	}
+}
+
+export type Job<Payload = unknown> = {
+	/** The unique Id of the Job */ id: string
+	/** The Name of the Handler */ name: string
+	/** The serializable Payload */ payload: Payload
+	/** The Priority of the Job */ priority: number
+	/** The Amount of Attempts made so far, including Attempts before a Restart */ attempts: number
+	/** When the Job was added (ms since epoch) */ createdAt: number
+}
+
+export type DeadJob<Payload = unknown> = Job<Payload> & {
+	/** The Message of the last Error */ error: string
+	/** When the Job was moved to the Dead-Letter File (ms since epoch) */ failedAt: number
+}
+
+type JournalEntry = {
+	op: 'add'
+	job: Job
+} | {
+	op: 'attempt' | 'ack' | 'dead'
+	id: string
+}
+
+/**
+ * A persistent Job Queue that stores serializable Jobs in an append-only Journal File
+ * 
+ * Jobs are recovered when the Queue is created, Jobs that were running during a Crash are run again so Handlers
+ * should be idempotent. Jobs that fail their last Attempt are appended to a Dead-Letter File as JSON Lines.
+ * @example
+ * ```
+ * import { queue } from "@rjweb/utils"
+ * 
+ * const jobs = new queue.JobQueue('./mails.journal', {
+ *   mail: async(payload: { to: string, subject: string }) => sendMail(payload.to, payload.subject)
+ * }, {
+ *   wait: 0,
+ *   concurrency: 2,
+ *   retry: { attempts: 5, delay: 1000 }
+ * })
+ * 
+ * jobs.error((job, err) => console.error(`job ${job.id} moved to ./mails.journal.dead`, err))
+ * 
+ * await jobs.add('mail', { to: 'user@example.com', subject: 'Hello' }) // persisted, survives restarts
+ * await jobs.onIdle()
+ * await jobs.close()
+ * ```
+ * @since 1.13.0
+ * @supports nodejs
+*/ export class JobQueue<Handlers extends Record<string, (payload: any, job: Job) => Promise<any> | any>> {
+	private queue: Queue<{}>
+	private jobs: Map<string, Job> = new Map()
+	private journal: Map<string, Job> = new Map()
+	private running: Set<Promise<unknown>> = new Set()
+	private writing: Promise<void> = Promise.resolve()
+	private ready: Promise<number>
+	private journaled: number = 0
+	private closed: boolean = false
+	private options: {
+		deadLetter: string
+		compactAfter: number
+		attempts: number
+		timeout: number
+		when: NonNullable<QueueRetry['when']>
+	}
+
+	private onFinish: null | ((job: Job, result: unknown) => Promise<any> | any) = null
+	private onError: null | ((job: DeadJob, error: unknown) => Promise<any> | any) = null
+
+	/**
+	 * Create a new Job Queue and recover all unfinished Jobs from the Journal
+	 * @since 1.13.0
+	*/ constructor(private file: string, private handlers: Handlers, options?: ConstructorParameters<typeof Queue>[0] & {
+		/**
+		 * The File Failed Jobs are appended to
+		 * @default `${file}.dead`
+		 * @since 1.13.0
+		*/ deadLetter?: string
+		/**
+		 * The Amount of Journal Entries after which the Journal is rewritten to only contain unfinished Jobs
+		 * @default 1000
+		 * @since 1.13.0
+		*/ compactAfter?: number
+	}) {
+		this.options = {
+			deadLetter: options?.deadLetter ?? `${file}.dead`,
+			compactAfter: options?.compactAfter ?? 1000,
+			attempts: Math.max(options?.retry?.attempts ?? 1, 1),
+			timeout: options?.timeout ?? 0,
+			when: options?.retry?.when ?? (() => true)
 		}
+
+		this.queue = new Queue({ ...options, timeout: 0 })
+		this.queue.pause()
+
+		this.ready = this.recover()
+		this.ready.catch(() => { })
+	}
+
+	/**
+	 * Callback for when a Job finishes successfully and was acknowledged
+	 * @since 1.13.0
+	*/ public finish(callback: (job: Job, result: unknown) => Promise<any> | any): this {
+		this.onFinish = callback
+
+		return this
+	}
+
+	/**
+	 * Callback for when a Job failed its last Attempt and was moved to the Dead-Letter File
+	 * @since 1.13.0
+	*/ public error(callback: (job: DeadJob, error: unknown) => Promise<any> | any): this {
+		this.onError = callback
+
+		return this
+	}
+
+	/**
+	 * The Amount of unfinished Jobs, including running Jobs
+	 * @since 1.13.0
+	*/ public get size(): number {
+		return this.jobs.size
+	}
+
+	/**
+	 * Wait until the Journal was recovered, resolves with the Amount of recovered Jobs
+	 * @since 1.13.0
+	*/ public recovered(): Promise<number> {
+		return this.ready
+	}
+
+	/**
+	 * Get all unfinished Jobs
+	 * @since 1.13.0
+	*/ public async pending(): Promise<Job[]> {
+		await this.ready
+
+		return Array.from(this.jobs.values()).map((job) => ({ ...job }))
+	}
+
+	/**
+	 * Add a Job, resolves with its Id once it was written to the Journal
+	 * @since 1.13.0
+	*/ public async add<Name extends keyof Handlers & string>(name: Name, payload: Parameters<Handlers[Name]>[0], options?: {
+		/**
+		 * The Priority of this Job, higher priorities run first
+		 * @default 0
+		 * @since 1.13.0
+		*/ priority?: number
+	}): Promise<string> {
+		await this.ready
+		if (this.closed) throw new Error('Job Queue was closed')
+		if (!(name in this.handlers)) throw new Error(`Unknown Job Handler \`${name}\``)
+
+		const job: Job = {
+			id: crypto.randomUUID(),
+			name,
+			payload: JSON.parse(JSON.stringify(payload ?? null)),
+			priority: options?.priority ?? 0,
+			attempts: 0,
+			createdAt: Date.now()
+		}
+
+		this.jobs.set(job.id, job)
+
+		try {
+			await this.append({ op: 'add', job })
+		} catch (err) {
+			this.jobs.delete(job.id)
+			throw err
+		}
+
+		this.schedule(job)
+
+		return job.id
+	}
+
+	/**
+	 * Wait until every Job finished and all Journal Entries were written
+	 * @since 1.13.0
+	*/ public async onIdle(): Promise<void> {
+		await this.ready
+		await this.queue.onIdle()
+		await this.writing
+	}
+
+	/**
+	 * Stop starting new Jobs and wait for running Jobs and pending Writes, unfinished Jobs (including Jobs failing
+	 * while closing) stay in the Journal and are recovered on the next start
+	 * @since 1.13.0
+	*/ public async close(): Promise<void> {
+		await this.ready.catch(() => { })
+
+		this.closed = true
+		this.queue.pause()
+		this.queue.clear()
+
+		await Promise.allSettled(this.running)
+		await this.writing
+	}
+
+	private append(...entries: JournalEntry[]): Promise<void> {
+		return this.write(async() => {
+			await fs.promises.appendFile(this.file, entries.map((entry) => JSON.stringify(entry)).join('\n').concat('\n'))
+
+			for (const entry of entries) this.apply(entry)
+			this.journaled += entries.length
+
+			if (this.journaled >= this.options.compactAfter) await this.rewrite().catch(() => { })
+		})
+	}
+
+	/**
+	 * Apply a Journal Entry to the journaled State, duplicate `add` Entries are ignored
+	*/ private apply(entry: JournalEntry) {
+		switch (entry.op) {
+			case 'add': {
+				if (entry.job && !this.journal.has(entry.job.id)) this.journal.set(entry.job.id, { ...entry.job })
+				break
+			}
+
+			case 'attempt': {
+				const job = this.journal.get(entry.id)
+				if (job) job.attempts++
+				break
+			}
+
+			case 'ack':
+			case 'dead': {
+				this.journal.delete(entry.id)
+				break
+			}
+		}
+	}
+
+	private write(fn: () => Promise<any>): Promise<void> {
+		const result = this.writing.then(fn)
+		this.writing = result.catch(() => { })
+
+		return result
+	}
+
+	/**
+	 * Rewrite the Journal from the journaled State, must only run inside the Write Chain
+	*/ private async rewrite() {
+		const temp = `${this.file}.${process.pid}.tmp`
+
+		await fs.promises.writeFile(temp, Array.from(this.journal.values()).map((job) => JSON.stringify({ op: 'add', job } satisfies JournalEntry).concat('\n')).join(''))
+		await fs.promises.rename(temp, this.file)
+
+		this.journaled = this.journal.size
+	}
+
+	private async recover(): Promise<number> {
+		const exists = await fs.promises.stat(this.file).then(() => true, () => false)
+
+		if (exists) for await (const line of filesystem.stream(this.file).lines()) {
+			let entry: JournalEntry
+			try {
+				entry = JSON.parse(line)
+			} catch {
+				continue
+			}
+
+			this.apply(entry)
+		}
+
+		for (const job of this.journal.values()) this.jobs.set(job.id, { ...job })
+		await this.write(() => this.rewrite())
+
+		let recovered = 0
+		for (const job of Array.from(this.jobs.values())) {
+			if (job.name in this.handlers) {
+				this.schedule(job)
+				recovered++
+			} else await this.bury(job, new Error(`Unknown Job Handler \`${job.name}\``))
+		}
+
+		this.queue.resume()
+
+		return recovered
+	}
+
+	private schedule(job: Job) {
+		this.queue.add(async() => {
+			const attempt = this.attempt(job)
+
+			this.running.add(attempt)
+			const retry = await attempt.finally(() => this.running.delete(attempt))
+
+			if (retry) throw retry.error
+		}, {
+			priority: job.priority,
+			retry: { attempts: Infinity, when: () => true }
+		})
+	}
+
+	/**
+	 * Run a single Attempt of a Job, resolves with the Error if the Job should be retried
+	*/ private async attempt(job: Job): Promise<{ error: unknown } | null> {
+		let timer: ReturnType<typeof setTimeout> | null = null,
+			result: unknown
+
+		job.attempts++
+
+		try {
+			await this.append({ op: 'attempt', id: job.id })
+
+			const handler = new Promise((resolve) => resolve(this.handlers[job.name](job.payload, { ...job })))
+			result = await (this.options.timeout > 0 ? Promise.race([
+				handler,
+				new Promise<never>((_, reject) => {
+					timer = setTimeout(() => reject(new Error(`Job timed out after ${this.options.timeout}ms`)), this.options.timeout)
+				})
+			]) : handler)
+		} catch (err) {
+			if (this.closed) return null
+
+			let retry = false
+			if (job.attempts < this.options.attempts) try {
+				retry = this.options.when(err, job.attempts)
+			} catch { }
+
+			if (retry) return { error: err }
+
+			await this.bury(job, err).catch(() => { })
+			return null
+		} finally {
+			if (timer) clearTimeout(timer)
+		}
+
+		this.jobs.delete(job.id)
+		await this.append({ op: 'ack', id: job.id }).catch(() => { })
+
+		if (this.onFinish) try {
+			await Promise.resolve(this.onFinish({ ...job }, result))
+		} catch { }
+
+		return null
+	}
+
+	private async bury(job: Job, err: unknown) {
+		const dead: DeadJob = {
+			...job,
+			error: err instanceof Error ? err.message : String(err),
+			failedAt: Date.now()
+		}
+
+		await this.write(() => fs.promises.appendFile(this.options.deadLetter, JSON.stringify(dead).concat('\n')))
+
+		this.jobs.delete(job.id)
+		await this.append({ op: 'dead', id: job.id })
+
+		if (this.onError) try {
+			await Promise.resolve(this.onError(dead, err))
+		} catch { }
 	}
 }
\ No newline at end of file
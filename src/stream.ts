@@ -1,5 +1,7 @@
 import * as streams from "stream"
 import * as streamsWeb from "stream/web"
+import * as crypto from "crypto"
+import { AEADAlgorithm, ChunkCipher, KeyDerivation, STREAM_TAG_LENGTH, StreamLimits, deriveKeyAsync, fillKeyDerivation, isAEAD, readStreamHeader, writeStreamHeader } from "./cipher"
 
 /**
  * Convert a Stream to an async iterator
@@ -22,4 +24,131 @@ import * as streamsWeb from "stream/web"
 	} else {
 		return stream
 	}
+}
+
+export type Transform = (source: AsyncIterable<Uint8Array>) => AsyncIterable<Buffer>
+
+/**
+ * Create a Transform that encrypts data chunk by chunk using an authenticated, seekable format
+ * 
+ * The output starts with a header (algorithm, key derivation, salt, chunk size and nonce prefix) followed
+ * by chunks of `chunkSize` bytes that each carry their own tag, so nothing has to be held in memory
+ * and truncating or reordering chunks is detected when decrypting.
+ * @example
+ * ```
+ * import { stream, network } from "@rjweb/utils"
+ * import * as streams from "stream"
+ * import * as fs from "fs"
+ * 
+ * await streams.promises.pipeline(
+ *   fs.createReadStream('./backup.tar'),
+ *   stream.encrypt('secret'),
+ *   fs.createWriteStream('./backup.tar.enc')
+ * )
+ * 
+ * for await (const chunk of stream.encrypt('secret')(network.stream('https://google.com'))) {
+ *   console.log(chunk.length)
+ * }
+ * ```
+ * @since 1.13.0
+ * @supports nodejs
+*/ export function encrypt(key: crypto.BinaryLike, options?: {
+	/**
+	 * The Algorithm to use
+	 * @default "aes-256-gcm"
+	 * @since 1.13.0
+	*/ algorithm?: AEADAlgorithm
+	/**
+	 * The Key Derivation Function to use
+	 * @default { type: 'scrypt' }
+	 * @since 1.13.0
+	*/ kdf?: KeyDerivation
+	/**
+	 * The Size of each plaintext Chunk, `stream.decrypt` rejects Chunks larger than `limits.maxChunkSize` (16 MiB by default)
+	 * @default size(64).kb()
+	 * @since 1.13.0
+	*/ chunkSize?: number
+}): Transform {
+	const pOptions = {
+		algorithm: options?.algorithm ?? 'aes-256-gcm',
+		kdf: fillKeyDerivation(options?.kdf),
+		chunkSize: options?.chunkSize ?? 65536
+	}
+
+	if (!isAEAD(pOptions.algorithm)) throw new Error(`Unsupported Algorithm \`${pOptions.algorithm}\``)
+	if (!Number.isInteger(pOptions.chunkSize) || pOptions.chunkSize < 1 || pOptions.chunkSize > 0xFFFFFFFF) throw new Error('Invalid Chunk Size')
+
+	return async function* (source) {
+		const header = writeStreamHeader(pOptions.algorithm, pOptions.kdf, pOptions.chunkSize),
+			cipher = new ChunkCipher(header, await deriveKeyAsync(key, header.salt, 32, header.kdf))
+
+		yield header.raw
+
+		let buffered = Buffer.alloc(0), index = 0
+		for await (const chunk of source) {
+			buffered = Buffer.concat([ buffered, chunk ])
+
+			while (buffered.length > pOptions.chunkSize) {
+				yield cipher.seal(index++, buffered.subarray(0, pOptions.chunkSize), false)
+				buffered = buffered.subarray(pOptions.chunkSize)
+			}
+		}
+
+		yield cipher.seal(index, buffered, true)
+	}
+}
+
+/**
+ * Create a Transform that decrypts data created using `stream.encrypt`
+ * @example
+ * ```
+ * import { stream, network } from "@rjweb/utils"
+ * import * as streams from "stream"
+ * import * as fs from "fs"
+ * 
+ * await streams.promises.pipeline(
+ *   fs.createReadStream('./backup.tar.enc'),
+ *   stream.decrypt('secret'),
+ *   fs.createWriteStream('./backup.tar')
+ * )
+ * 
+ * await network.download('https://example.com/backup.tar.enc', './backup.tar', {}, { transform: stream.decrypt('secret') })
+ * ```
+ * @throws If the data was tampered with, truncated, the key is wrong or the key derivation or chunk size exceeds `limits`
+ * @since 1.13.0
+ * @supports nodejs
+*/ export function decrypt(key: crypto.BinaryLike, options?: {
+	/**
+	 * The Limits for the Key Derivation and Chunk Size read from the Stream Header
+	 * @default { maxIterations: 1000000, maxCost: 131072, maxParallelization: 16, maxMemory: 268435456, maxChunkSize: 16777216 }
+	 * @since 1.13.0
+	*/ limits?: StreamLimits
+}): Transform {
+	return async function* (source) {
+		let buffered = Buffer.alloc(0), index = 0,
+			cipher: ChunkCipher | null = null,
+			encryptedChunkSize = 0
+
+		for await (const chunk of source) {
+			buffered = Buffer.concat([ buffered, chunk ])
+
+			if (!cipher) {
+				const header = readStreamHeader(buffered, options?.limits)
+				if (!header) continue
+
+				cipher = new ChunkCipher(header, await deriveKeyAsync(key, header.salt, 32, header.kdf))
+				encryptedChunkSize = header.chunkSize + STREAM_TAG_LENGTH
+				buffered = buffered.subarray(header.raw.length)
+			}
+
+			while (buffered.length > encryptedChunkSize) {
+				yield cipher.open(index++, buffered.subarray(0, encryptedChunkSize), false)
+				buffered = buffered.subarray(encryptedChunkSize)
+			}
+		}
+
+		if (!cipher) throw new Error('Truncated Encrypted Stream')
+
+		yield cipher.open(index, buffered, true)
+	}
 }
\ No newline at end of file
@@ -1,5 +1,6 @@
 import * as crypto from "crypto"
-import { ArrayOrNot } from "."
+import { ArrayOrNot, DeepRequired } from "."
+import { AEADAlgorithm, KeyDerivation, KeyDerivationLimits, aeadAlgorithm, aeadAlgorithms, checkKeyDerivation, deriveKey, deriveKeyAsync, fillKeyDerivation, isAEAD, kdfDigests, readKeyDerivation, writeKeyDerivation } from "./cipher"
 
 const lowercase = Object.freeze('abcdefghijklmnopqrstuvwxyz'.split(''))
 const uppercase = Object.freeze('ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split(''))
@@ -51,13 +52,74 @@ const symbols = Object.freeze('!@#$%^&*()+_-=}{[]|:;"/?.><,`~'.split(''))
 	}
 }
 
+export type { AEADAlgorithm, KeyDerivation } from "./cipher"
+
+const envelopeMagic = Buffer.from('RJE', 'ascii'),
+	envelopeVersion = 1
+
+/**
+ * Envelope Layout (version 1)
+ * 
+ * magic (3) | version (1) | algorithm (1) | kdf (7) | salt length (1) | salt | iv length (1) | iv | tag (16) | ciphertext
+ * 
+ * everything before the tag is used as additional authenticated data
+*/ function writeEnvelopeHeader(algorithm: AEADAlgorithm, kdf: DeepRequired<KeyDerivation>, salt: Buffer, iv: Buffer): Buffer {
+	return Buffer.concat([
+		envelopeMagic,
+		Buffer.from([ envelopeVersion, aeadAlgorithms[algorithm].id ]),
+		writeKeyDerivation(kdf),
+		Buffer.from([ salt.length ]), salt,
+		Buffer.from([ iv.length ]), iv
+	])
+}
+
+function readEnvelope(input: Buffer): {
+	algorithm: AEADAlgorithm
+	kdf: DeepRequired<KeyDerivation>
+	salt: Buffer
+	iv: Buffer
+	header: Buffer
+	tag: Buffer
+	data: Buffer
+} | null {
+	if (input.length < envelopeMagic.length + 11 || !input.subarray(0, envelopeMagic.length).equals(envelopeMagic)) return null
+	if (input[3] !== envelopeVersion) return null
+
+	const algorithm = aeadAlgorithm(input[4]),
+		kdf = readKeyDerivation(input, 5)
+	if (!algorithm || !kdf) return null
+
+	let offset = 12
+
+	const saltLength = input[offset++]
+	const salt = input.subarray(offset, offset += saltLength)
+
+	const ivLength = input[offset++]
+	const iv = input.subarray(offset, offset += ivLength)
+
+	if (ivLength !== aeadAlgorithms[algorithm].ivLength || input.length < offset + 16) return null
+
+	return {
+		algorithm, kdf, salt, iv,
+		header: input.subarray(0, offset),
+		tag: input.subarray(offset, offset + 16),
+		data: input.subarray(offset + 16)
+	}
+}
+
 /**
  * Encrypt a String
+ * 
+ * When using an AEAD algorithm (`aes-256-gcm` or `chacha20-poly1305`) a random salt and iv are generated
+ * for every call, the key is derived using `kdf` and the output is a self describing envelope that `string.decrypt`
+ * detects automatically. Other algorithms use the legacy format with a zero iv.
  * @example
  * ```
  * import { string } from "@rjweb/utils"
  * 
  * string.encrypt('Hello', 'secret', { algorithm: 'aes-256-cbc', output: 'hex' }) // df4d0fe46e0210d4ef46368a6c3d56bb
+ * string.encrypt('Hello', 'secret', { algorithm: 'aes-256-gcm', output: 'base64' }) // UkpFAQEBAABAAAgBEJ6w...
+ * string.encrypt('Hello', 'secret', { algorithm: 'chacha20-poly1305', kdf: { type: 'pbkdf2' } }) // 524a45010202...
  * ```
  * @since 1.0.0
  * @supports nodejs
@@ -66,7 +128,12 @@ const symbols = Object.freeze('!@#$%^&*()+_-=}{[]|:;"/?.><,`~'.split(''))
 	 * The Algorithm to use
 	 * @default "aes-256-cbc"
 	 * @since 1.0.0
-	*/ algorithm?: string
+	*/ algorithm?: AEADAlgorithm | (string & {})
+	/**
+	 * The Key Derivation Function to use (only used with AEAD algorithms)
+	 * @default { type: 'scrypt' }
+	 * @since 1.13.0
+	*/ kdf?: KeyDerivation
 	/**
 	 * The Output type to emit
 	 * @default "hex"
@@ -78,10 +145,27 @@ const symbols = Object.freeze('!@#$%^&*()+_-=}{[]|:;"/?.><,`~'.split(''))
 		output: options?.output ?? 'hex'
 	}
 
-	const iv = Buffer.alloc(16, 0)
+	let data: Buffer
+
+	if (isAEAD(pOptions.algorithm)) {
+		const kdf = fillKeyDerivation(options?.kdf),
+			salt = crypto.randomBytes(16),
+			iv = crypto.randomBytes(aeadAlgorithms[pOptions.algorithm].ivLength)
+
+		const header = writeEnvelopeHeader(pOptions.algorithm, kdf, salt, iv)
+
+		const enCipher = crypto.createCipheriv(pOptions.algorithm as crypto.CipherGCMTypes, deriveKey(key, salt, kdf), iv, { authTagLength: 16 })
+		enCipher.setAAD(header)
+
+		const encrypted = Buffer.concat([ enCipher.update(input), enCipher.final() ])
 
-	const enCipher = crypto.createCipheriv(pOptions.algorithm, crypto.createHash('sha256').update(key).digest('base64').substring(0, 32), iv)
-	const data = Buffer.concat([ enCipher.update(input), enCipher.final() ])
+		data = Buffer.concat([ header, enCipher.getAuthTag(), encrypted ])
+	} else {
+		const iv = Buffer.alloc(16, 0)
+
+		const enCipher = crypto.createCipheriv(pOptions.algorithm, crypto.createHash('sha256').update(key).digest('base64').substring(0, 32), iv)
+		data = Buffer.concat([ enCipher.update(input), enCipher.final() ])
+	}
 
 	let out: string | Buffer
 
@@ -93,17 +177,23 @@ const symbols = Object.freeze('!@#$%^&*()+_-=}{[]|:;"/?.><,`~'.split(''))
 
 /**
  * Decrypt a String
+ * 
+ * Envelopes created using an AEAD algorithm are detected automatically, in that case the algorithm
+ * and key derivation are read from the envelope (within `limits`). Everything else, including legacy data that only
+ * looks like an envelope, is decrypted using the legacy format.
  * @example
  * ```
  * import { string } from "@rjweb/utils"
  * 
  * string.decrypt('df4d0fe46e0210d4ef46368a6c3d56bb', 'secret', { algorithm: 'aes-256-cbc', input: 'hex' }) // Hello
+ * string.decrypt(string.encrypt('Hello', 'secret', { algorithm: 'aes-256-gcm' }), 'secret') // Hello
  * ```
+ * @throws If the envelope was tampered with, the key is wrong or the key derivation exceeds `limits`
  * @since 1.0.0
  * @supports nodejs
 */ export function decrypt<Options extends {
 	/**
-	 * The Algorithm to use
+	 * The Algorithm to use (ignored for AEAD envelopes)
 	 * @default "aes-256-cbc"
 	 * @since 1.0.0
 	*/ algorithm?: string
@@ -112,26 +202,172 @@ const symbols = Object.freeze('!@#$%^&*()+_-=}{[]|:;"/?.><,`~'.split(''))
 	 * @default "hex"
 	 * @since 1.0.0
 	*/ input?: BufferEncoding | 'buffer'
+	/**
+	 * The Limits for the Key Derivation read from AEAD envelopes
+	 * @default { maxIterations: 1000000, maxCost: 131072, maxParallelization: 16, maxMemory: 268435456 }
+	 * @since 1.13.0
+	*/ limits?: KeyDerivationLimits
 }>(input: Options['input'] extends 'buffer' ? Buffer : string, key: crypto.BinaryLike, options?: Options): string {
 	const pOptions = {
 		algorithm: options?.algorithm ?? 'aes-256-cbc',
 		input: options?.input ?? 'hex'
 	}
 
+	const raw = pOptions.input === 'buffer'
+		? input as Buffer : Buffer.from(input as string, pOptions.input)
+
+	const envelope = readEnvelope(raw)
+	let envelopeError: unknown = null
+
+	if (envelope) {
+		let derived: Buffer | null = null
+
+		try {
+			checkKeyDerivation(envelope.kdf, options?.limits)
+			derived = deriveKey(key, envelope.salt, envelope.kdf)
+		} catch (err) {
+			envelopeError = err
+		}
+
+		if (derived) {
+			const deCipher = crypto.createDecipheriv(envelope.algorithm as crypto.CipherGCMTypes, derived, envelope.iv, { authTagLength: 16 })
+			deCipher.setAAD(envelope.header)
+			deCipher.setAuthTag(envelope.tag)
+
+			return Buffer.concat([ deCipher.update(envelope.data), deCipher.final() ]).toString()
+		}
+	}
+
 	const iv = Buffer.alloc(16, 0)
 
-	const deCipher = crypto.createDecipheriv(pOptions.algorithm, crypto.createHash('sha256').update(key).digest('base64').substring(0, 32), iv)
-	const data = Buffer.concat([
-		deCipher.update(pOptions.input === 'buffer'
-			? input.toString('hex') : input as string,
-		pOptions.input === 'buffer'
-			? 'hex' : pOptions.input),
-		deCipher.final()
-	])
+	try {
+		const deCipher = crypto.createDecipheriv(pOptions.algorithm, crypto.createHash('sha256').update(key).digest('base64').substring(0, 32), iv)
+		const data = Buffer.concat([
+			deCipher.update(raw),
+			deCipher.final()
+		])
+
+		return data.toString()
+	} catch (err) {
+		throw envelopeError ?? err
+	}
+}
+
+function encodePHC(kdf: DeepRequired<KeyDerivation>, salt: Buffer, derived: Buffer): string {
+	const b64 = (data: Buffer) => data.toString('base64').replace(/=+$/, '')
 
-	return data.toString()
+	if (kdf.type === 'scrypt') {
+		return `$scrypt$ln=${Math.log2(kdf.cost)},r=${kdf.blockSize},p=${kdf.parallelization}$${b64(salt)}$${b64(derived)}`
+	} else {
+		return `$pbkdf2-${kdf.digest}$i=${kdf.iterations}$${b64(salt)}$${b64(derived)}`
+	}
 }
 
+function decodePHC(encoded: string, limits?: KeyDerivationLimits): { kdf: DeepRequired<KeyDerivation>, salt: Buffer, derived: Buffer } {
+	const [ empty, id, params, salt, derived ] = encoded.split('$')
+	if (empty !== '' || !id || !params || !salt || !derived) throw new Error('Invalid Password Hash')
+
+	const values = kv(params, null, ',')
+	let kdf: DeepRequired<KeyDerivation>
+
+	if (id === 'scrypt') {
+		const ln = parseInt(values.ln), r = parseInt(values.r), p = parseInt(values.p)
+		if (isNaN(ln) || isNaN(r) || isNaN(p) || ln < 1 || ln > 31 || r < 1 || p < 1) throw new Error('Invalid Password Hash')
+
+		kdf = { type: 'scrypt', cost: 2 ** ln, blockSize: r, parallelization: p }
+	} else if (id.startsWith('pbkdf2-')) {
+		const digest = kdfDigests.find((d) => d === id.slice(7)), i = parseInt(values.i)
+		if (!digest || isNaN(i) || i < 1) throw new Error('Invalid Password Hash')
+
+		kdf = { type: 'pbkdf2', iterations: i, digest }
+	} else throw new Error(`Unsupported Password Hash \`${id}\``)
+
+	checkKeyDerivation(kdf, limits)
+
+	return {
+		kdf,
+		salt: Buffer.from(salt, 'base64'),
+		derived: Buffer.from(derived, 'base64')
+	}
+}
+
+function belowPolicy(kdf: DeepRequired<KeyDerivation>, policy: DeepRequired<KeyDerivation>): boolean {
+	if (kdf.type !== policy.type) return true
+
+	if (kdf.type === 'scrypt' && policy.type === 'scrypt') {
+		return kdf.cost < policy.cost || kdf.blockSize < policy.blockSize || kdf.parallelization < policy.parallelization
+	} else if (kdf.type === 'pbkdf2' && policy.type === 'pbkdf2') {
+		return kdf.iterations < policy.iterations || kdf.digest !== policy.digest
+	}
+
+	return false
+}
+
+/**
+ * Hash & Verify Passwords using scrypt or PBKDF2
+ * 
+ * Hashes are encoded as PHC strings (`$scrypt$ln=14,r=8,p=1$<salt>$<hash>` or `$pbkdf2-sha256$i=600000$<salt>$<hash>`),
+ * so the parameters and salt are stored alongside the hash.
+ * @example
+ * ```
+ * import { string } from "@rjweb/utils"
+ * 
+ * const hashed = await string.password.hash('secret') // $scrypt$ln=14,r=8,p=1$8EsY...$Rkc4...
+ * 
+ * await string.password.verify('secret', hashed) // { valid: true, needsRehash: false }
+ * await string.password.verify('wrong', hashed) // { valid: false, needsRehash: false }
+ * await string.password.verify('secret', hashed, { type: 'scrypt', cost: 2 ** 17 }) // { valid: true, needsRehash: true }
+ * 
+ * string.password.needsRehash(hashed, { type: 'pbkdf2' }) // true
+ * ```
+ * @since 1.13.0
+ * @supports nodejs
+*/ export const password = Object.freeze({
+	/**
+	 * Hash a Password
+	 * @default kdf = { type: 'scrypt' }
+	 * @since 1.13.0
+	*/ async hash(input: crypto.BinaryLike, kdf?: KeyDerivation): Promise<string> {
+		const pKdf = fillKeyDerivation(kdf),
+			salt = crypto.randomBytes(16)
+
+		if (pKdf.type === 'scrypt' && !Number.isInteger(Math.log2(pKdf.cost))) throw new Error('Cost must be a power of 2')
+
+		return encodePHC(pKdf, salt, await deriveKeyAsync(input, salt, 32, pKdf))
+	},
+
+	/**
+	 * Verify a Password against an encoded Hash in constant time
+	 * 
+	 * `needsRehash` is true when the hash was created using weaker parameters than `policy`,
+	 * the parameters of the encoded Hash must stay within `limits`
+	 * @throws If the encoded Hash is invalid or exceeds `limits`
+	 * @default policy = { type: 'scrypt' }
+	 * @default limits = { maxIterations: 1000000, maxCost: 131072, maxParallelization: 16, maxMemory: 268435456 }
+	 * @since 1.13.0
+	*/ async verify(input: crypto.BinaryLike, encoded: string, policy?: KeyDerivation, limits?: KeyDerivationLimits): Promise<{ valid: boolean, needsRehash: boolean }> {
+		const { kdf, salt, derived } = decodePHC(encoded, limits)
+		if (!derived.length || derived.length > 512) throw new Error('Invalid Password Hash')
+
+		const compare = await deriveKeyAsync(input, salt, derived.length, kdf)
+
+		return {
+			valid: crypto.timingSafeEqual(compare, derived),
+			needsRehash: belowPolicy(kdf, fillKeyDerivation(policy))
+		}
+	},
+
+	/**
+	 * Check whether an encoded Hash was created using weaker parameters than `policy`
+	 * @throws If the encoded Hash is invalid or exceeds `limits`
+	 * @default policy = { type: 'scrypt' }
+	 * @default limits = { maxIterations: 1000000, maxCost: 131072, maxParallelization: 16, maxMemory: 268435456 }
+	 * @since 1.13.0
+	*/ needsRehash(encoded: string, policy?: KeyDerivation, limits?: KeyDerivationLimits): boolean {
+		return belowPolicy(decodePHC(encoded, limits).kdf, fillKeyDerivation(policy))
+	}
+})
+
 /**
  * Generate a Random String
  * @example
@@ -1,6 +1,9 @@
 import * as child from "child_process"
 import * as os from "os"
-import { number, size } from "."
+import * as rl from "readline"
+import * as fs from "fs"
+import { monitorEventLoopDelay } from "perf_hooks"
+import { array, number, size } from "."
 
 function cpuAverage() {
 	let totalIdle = 0, totalTick = 0
@@ -39,31 +42,456 @@ function cpuAverage() {
 	 * @since 1.3.0
 	*/ async?: boolean
 	/**
-	 * The timeout for the command
+	 * The timeout for the command, when using async child_process the shell is started in its own
+	 * process group which is killed as a whole (`SIGTERM`, then `SIGKILL` after 5 seconds)
 	 * @default 0
 	 * @since 1.12.11
 	*/ timeout?: number
+	/**
+	 * An AbortSignal to kill the command with (async only), like `timeout` this starts the shell in its own process group
+	 * @since 1.13.0
+	*/ signal?: AbortSignal
 }>(command: string, options?: Options): Options['async'] extends true ? Promise<string> : string {
 	const pOptions = {
 		async: options?.async ?? false
 	}
 
 	if (pOptions.async) {
-		return new Promise((resolve, reject) => {
-			child.exec(command, {
-				maxBuffer: size(50).mb(),
-				timeout: options?.timeout ?? 0
-			}, (err, stdout, stderr) => {
-				if (err) return reject(err)
-
-				return resolve(stdout.concat(stderr))
+		const timeout = options?.timeout ?? 0
+
+		return collect([ command ], {
+			timeout,
+			signal: options?.signal,
+			processGroup: timeout > 0 || !!options?.signal
+		}, true).then((result) => {
+			if (result.exitCode === 0 && !result.signal) return result.stdout.concat(result.stderr)
+
+			const error: child.ExecException = Object.assign(new Error(`Command failed: ${command}\n${result.stderr}`), {
+				cmd: command,
+				killed: !!result.signal && timeout > 0 && result.durationMs >= timeout,
+				code: result.exitCode ?? undefined,
+				signal: result.signal ?? undefined,
+				stdout: result.stdout,
+				stderr: result.stderr
 			})
+
+			throw error
 		}) as any
 	} else {
 		return child.execSync(command, { stdio: 'pipe', encoding: 'utf8', timeout: options?.timeout ?? 0 }) as any
 	}
 }
 
+export type RunResult = {
+	/** The collected Standard Output */ stdout: string
+	/** The collected Standard Error */ stderr: string
+	/** The Exit Code, `null` if the Process was killed by a Signal */ exitCode: number | null
+	/** The Signal that killed the Process */ signal: NodeJS.Signals | null
+	/** How long the Process ran in ms */ durationMs: number
+}
+
+export type RunLine = {
+	/** The Stream the Line was written to */ stream: 'stdout' | 'stderr'
+	/** The Line without its Line Break */ line: string
+}
+
+export type RunOptions = {
+	/**
+	 * The Working Directory of the Process
+	 * @default process.cwd()
+	 * @since 1.13.0
+	*/ cwd?: string
+	/**
+	 * Environment Variables of the Process, merged with `process.env` unless `inheritEnv` is `false`
+	 * @default {}
+	 * @since 1.13.0
+	*/ env?: Record<string, string | undefined>
+	/**
+	 * Whether to inherit the Environment Variables of the current Process
+	 * @default true
+	 * @since 1.13.0
+	*/ inheritEnv?: boolean
+	/**
+	 * Data to write to the Standard Input of the Process
+	 * @since 1.13.0
+	*/ input?: string | Uint8Array
+	/**
+	 * Whether to throw if the Process exits with a non-zero Exit Code or is killed
+	 * @default false
+	 * @since 1.13.0
+	*/ throwOnError?: boolean
+	/**
+	 * The timeout for the Process in ms, `0` to disable
+	 * @default 0
+	 * @since 1.13.0
+	*/ timeout?: number
+	/**
+	 * The maximum Amount of Bytes collected from stdout and stderr, the Process is killed once exceeded
+	 * @default size(50).mb()
+	 * @since 1.13.0
+	*/ maxBuffer?: number
+	/**
+	 * Whether to stream Output Lines as they arrive using an Async Iterator instead of collecting the Output
+	 * @default false
+	 * @since 1.13.0
+	*/ lines?: boolean
+	/**
+	 * An AbortSignal to kill the Process with, the Promise / Iterator rejects with the Abort Reason
+	 * @since 1.13.0
+	*/ signal?: AbortSignal
+	/**
+	 * The Signal sent first when the Process is killed (timeout, abort)
+	 * @default "SIGTERM"
+	 * @since 1.13.0
+	*/ killSignal?: NodeJS.Signals
+	/**
+	 * How long to wait after `killSignal` before sending `SIGKILL` in ms, `Infinity` to never escalate
+	 * @default 5000
+	 * @since 1.13.0
+	*/ killGrace?: number
+	/**
+	 * Whether to start the Process in its own Process Group and kill the whole Group (including Grandchildren), not supported on Windows
+	 * @default false
+	 * @since 1.13.0
+	*/ processGroup?: boolean
+}
+
+export type ChildProcessInfo = {
+	/** The Process ID */ pid: number
+	/** The Command (argv, or the Shell Command for `system.execute`) */ argv: string[]
+	/** When the Process was started */ startedAt: Date
+	/** Whether the Process runs in its own Process Group */ processGroup: boolean
+}
+
+const children = new Map<child.ChildProcess, ChildProcessInfo>()
+
+function track(proc: child.ChildProcess, argv: string[], processGroup: boolean): void {
+	if (!proc.pid) return
+
+	children.set(proc, { pid: proc.pid, argv, startedAt: new Date(), processGroup })
+	proc.once('exit', () => children.delete(proc))
+}
+
+function sendSignal(proc: child.ChildProcess, signal: NodeJS.Signals, processGroup: boolean): void {
+	try {
+		if (processGroup && proc.pid) process.kill(-proc.pid, signal)
+		else proc.kill(signal)
+	} catch { }
+}
+
+/**
+ * Kill a Process using `signal`, escalating to `SIGKILL` after `grace` ms
+*/ function terminate(proc: child.ChildProcess, signal: NodeJS.Signals, grace: number, processGroup: boolean): void {
+	sendSignal(proc, signal, processGroup)
+	if (grace === Infinity || signal === 'SIGKILL') return
+
+	const exited = () => proc.exitCode !== null || proc.signalCode !== null,
+		alive = () => {
+			if (!processGroup || !proc.pid) return !exited()
+
+			try {
+				process.kill(-proc.pid, 0)
+				return true
+			} catch {
+				return false
+			}
+		}
+
+	if (!alive()) return
+
+	const timer = setTimeout(() => {
+		proc.off('exit', onExit)
+		if (alive()) sendSignal(proc, 'SIGKILL', processGroup)
+	}, grace).unref()
+
+	const onExit = () => {
+		if (alive()) return
+
+		clearTimeout(timer)
+		proc.off('exit', onExit)
+	}
+
+	proc.on('exit', onExit)
+}
+
+/**
+ * Handle timeouts & AbortSignals of a Process
+*/ function supervise(proc: child.ChildProcess, options: Pick<RunOptions, 'timeout' | 'signal' | 'killSignal' | 'killGrace' | 'processGroup'>) {
+	const stop = () => terminate(proc, options.killSignal ?? 'SIGTERM', options.killGrace ?? 5000, options.processGroup ?? false),
+		timer = options.timeout ? setTimeout(stop, options.timeout) : null
+
+	options.signal?.addEventListener('abort', stop, { once: true })
+
+	return {
+		stop,
+		aborted: () => options.signal?.aborted ?? false,
+		dispose() {
+			if (timer) clearTimeout(timer)
+			options.signal?.removeEventListener('abort', stop)
+		}
+	}
+}
+
+function spawnProcess(argv: string[], options?: RunOptions, shell: boolean = false): child.ChildProcessWithoutNullStreams {
+	if (!argv.length) throw new Error('No Command provided')
+	options?.signal?.throwIfAborted()
+
+	const processGroup = (options?.processGroup ?? false) && process.platform !== 'win32',
+		proc = child.spawn(argv[0], argv.slice(1), {
+			cwd: options?.cwd,
+			env: options?.inheritEnv ?? true ? { ...process.env, ...options?.env } : options?.env ?? {},
+			stdio: 'pipe',
+			shell,
+			windowsHide: true,
+			detached: processGroup
+		})
+
+	track(proc, argv, processGroup)
+
+	proc.stdin.on('error', () => null)
+	proc.stdin.end(options?.input)
+
+	return proc
+}
+
+function exitError(argv: string[], exitCode: number | null, signal: NodeJS.Signals | null, stderr?: string): Error {
+	return new Error(`Command \`${argv[0]}\` ${signal ? `was killed with ${signal}` : `exited with Code ${exitCode}`}${stderr?.trim() ? `: ${stderr.trim()}` : ''}`)
+}
+
+async function* runLines(argv: string[], options?: RunOptions): AsyncGenerator<RunLine, Omit<RunResult, 'stdout' | 'stderr'>> {
+	const start = performance.now(),
+		proc = spawnProcess(argv, options),
+		queue: RunLine[] = []
+
+	let wake: (() => void) | null = null,
+		exit: { exitCode: number | null, signal: NodeJS.Signals | null } | null = null,
+		failure: Error | null = null
+
+	const notify = () => {
+		wake?.()
+		wake = null
+	}
+
+	const supervisor = supervise(proc, { ...options, processGroup: children.get(proc)?.processGroup }),
+		readers = ([ 'stdout', 'stderr' ] as const).map((stream) => rl.createInterface({ input: proc[stream], crlfDelay: Infinity })
+			.on('line', (line) => {
+				queue.push({ stream, line })
+				if (queue.length >= 1000) proc[stream].pause()
+
+				notify()
+			}))
+
+	proc.once('error', (err) => {
+		failure = err
+		notify()
+	})
+
+	proc.once('close', (exitCode, signal) => {
+		exit = { exitCode, signal }
+		notify()
+	})
+
+	try {
+		while (true) {
+			if (queue.length) {
+				yield queue.shift()!
+
+				if (!queue.length) {
+					proc.stdout.resume()
+					proc.stderr.resume()
+				}
+			} else if (failure) throw failure
+			else if (exit) break
+			else await new Promise<void>((resolve) => wake = resolve)
+		}
+
+		if (supervisor.aborted()) throw options?.signal?.reason
+
+		const { exitCode, signal } = exit!
+		if (options?.throwOnError && (exitCode !== 0 || signal)) throw exitError(argv, exitCode, signal)
+
+		return { exitCode, signal, durationMs: number.round(performance.now() - start, 2) }
+	} finally {
+		supervisor.dispose()
+		for (const reader of readers) reader.close()
+
+		if (proc.exitCode === null && proc.signalCode === null) supervisor.stop()
+	}
+}
+
+/**
+ * Run a Command without a Shell, the first Element of `argv` is the Executable
+ * 
+ * Unlike `system.execute` stdout and stderr are collected separately and non-zero Exit Codes do not throw
+ * unless `throwOnError` is set. With `lines` an Async Iterator of Output Lines is returned instead, its return Value is the Result
+ * without the collected Output.
+ * @example
+ * ```
+ * import { system } from "@rjweb/utils"
+ * 
+ * await system.run(['echo', 'hi']) // { stdout: 'hi\n', stderr: '', exitCode: 0, signal: null, durationMs: 1.74 }
+ * await system.run(['cat'], { input: 'hello' }) // { stdout: 'hello', ... }
+ * await system.run(['ls', '/nonexistent']) // { stdout: '', stderr: 'ls: cannot access ...', exitCode: 2, ... }
+ * 
+ * for await (const { stream, line } of system.run(['ping', '-c', '3', '1.1.1.1'], { lines: true })) {
+ *   console.log(stream, line)
+ * }
+ * 
+ * await system.run(['sh', '-c', 'sleep 100 & sleep 100'], { timeout: 1000, processGroup: true, killGrace: 2000 }) // kills both sleeps
+ * await system.run(['sleep', '100'], { signal: AbortSignal.timeout(1000) }) // <rejects TimeoutError>
+ * ```
+ * @throws If the Command could not be started, was aborted or `throwOnError` is set and the Command failed
+ * @since 1.13.0
+ * @supports nodejs
+*/ export function run<Options extends RunOptions>(argv: string[], options?: Options): Options['lines'] extends true ? AsyncGenerator<RunLine, Omit<RunResult, 'stdout' | 'stderr'>> : Promise<RunResult> {
+	if (options?.lines) return runLines(argv, options) as any
+
+	return collect(argv, options) as any
+}
+
+function collect(argv: string[], options?: RunOptions, shell: boolean = false): Promise<RunResult> {
+	return new Promise<RunResult>((resolve, reject) => {
+		const start = performance.now(),
+			proc = spawnProcess(argv, options, shell),
+			maxBuffer = options?.maxBuffer ?? size(50).mb(),
+			output: Record<'stdout' | 'stderr', Buffer[]> = { stdout: [], stderr: [] }
+
+		let buffered = 0,
+			failure: Error | null = null
+
+		const supervisor = supervise(proc, { ...options, processGroup: children.get(proc)?.processGroup })
+
+		for (const stream of [ 'stdout', 'stderr' ] as const) {
+			proc[stream].on('data', (chunk: Buffer) => {
+				buffered += chunk.length
+
+				if (buffered > maxBuffer) {
+					failure ??= new Error(`Command \`${argv[0]}\` exceeded maxBuffer of ${maxBuffer} Bytes`)
+					supervisor.stop()
+				} else output[stream].push(chunk)
+			})
+		}
+
+		proc.once('error', (err) => {
+			supervisor.dispose()
+			reject(err)
+		})
+
+		proc.once('close', (exitCode, signal) => {
+			supervisor.dispose()
+			if (supervisor.aborted()) return reject(options?.signal?.reason)
+			if (failure) return reject(failure)
+
+			const result: RunResult = {
+				stdout: Buffer.concat(output.stdout).toString('utf8'),
+				stderr: Buffer.concat(output.stderr).toString('utf8'),
+				exitCode, signal,
+				durationMs: number.round(performance.now() - start, 2)
+			}
+
+			if (options?.throwOnError && (exitCode !== 0 || signal)) return reject(exitError(argv, exitCode, signal, result.stderr))
+
+			return resolve(result)
+		})
+	})
+}
+
+/**
+ * List all running Child Processes spawned by `system.run` and `system.execute`
+ * @example
+ * ```
+ * import { system } from "@rjweb/utils"
+ * 
+ * system.run(['sleep', '10'])
+ * 
+ * system.listChildren() // [{ pid: 1234, argv: ['sleep', '10'], startedAt: 2024-01-01T00:00:00.000Z, processGroup: false }]
+ * ```
+ * @since 1.13.0
+ * @supports nodejs
+*/ export function listChildren(): ChildProcessInfo[] {
+	return Array.from(children.values(), (info) => ({ ...info, argv: Array.from(info.argv) }))
+}
+
+/**
+ * Kill all running Child Processes spawned by `system.run` and `system.execute`, resolves once all of them exited
+ * @example
+ * ```
+ * import { system } from "@rjweb/utils"
+ * 
+ * process.once('SIGINT', async() => {
+ *   await system.killChildren()
+ *   process.exit(1)
+ * })
+ * ```
+ * @since 1.13.0
+ * @supports nodejs
+ * @default
+ * options.signal = "SIGTERM"
+ * options.grace = 5000
+*/ export async function killChildren(options?: {
+	/**
+	 * The Signal sent first
+	 * @default "SIGTERM"
+	 * @since 1.13.0
+	*/ signal?: NodeJS.Signals
+	/**
+	 * How long to wait before sending `SIGKILL` in ms
+	 * @default 5000
+	 * @since 1.13.0
+	*/ grace?: number
+}): Promise<number> {
+	const running = Array.from(children.entries())
+
+	await Promise.all(running.map(([ proc, info ]) => new Promise<void>((resolve) => {
+		if (proc.exitCode !== null || proc.signalCode !== null) return resolve()
+
+		proc.once('exit', () => resolve())
+		terminate(proc, options?.signal ?? 'SIGTERM', options?.grace ?? 5000, info.processGroup)
+	})))
+
+	return running.length
+}
+
+let exitCleanup = false
+
+function killChildrenSync(): void {
+	for (const [ proc, info ] of children) sendSignal(proc, 'SIGKILL', info.processGroup)
+}
+
+function killChildrenOnSignal(signal: NodeJS.Signals): void {
+	killChildrenSync()
+
+	if (!process.listenerCount(signal)) process.kill(process.pid, signal)
+}
+
+/**
+ * Kill (`SIGKILL`) all running Child Processes spawned by `system.run` and `system.execute` when the current Process exits,
+ * including exits caused by `SIGINT`, `SIGTERM` and `SIGHUP`
+ * @example
+ * ```
+ * import { system } from "@rjweb/utils"
+ * 
+ * system.killChildrenOnExit()
+ * system.run(['sleep', '100'], { processGroup: true })
+ * 
+ * process.exit() // sleep is killed
+ * ```
+ * @since 1.13.0
+ * @supports nodejs
+ * @default enabled = true
+*/ export function killChildrenOnExit(enabled: boolean = true): void {
+	if (enabled === exitCleanup) return
+	exitCleanup = enabled
+
+	for (const signal of [ 'SIGINT', 'SIGTERM', 'SIGHUP' ] as const) {
+		if (enabled) process.once(signal, killChildrenOnSignal)
+		else process.off(signal, killChildrenOnSignal)
+	}
+
+	if (enabled) process.on('exit', killChildrenSync)
+	else process.off('exit', killChildrenSync)
+}
+
 /**
  * Get the Systems CPU Usage
  * @example
@@ -88,4 +516,469 @@ function cpuAverage() {
 			return resolve(number.round(100 - (100 * idle / total), 2))
 		}, captureTime)
 	})
+}
+
+export type SystemSnapshot = {
+	cpu: {
+		/** The average Usage of all Cores in % */ usage: number
+		/** The Usage of each Core */ cores: {
+			model: string
+			/** The Speed in MHz */ speed: number
+			/** The Usage in % */ usage: number
+		}[]
+		/** The 1, 5 and 15 minute Load Averages */ loadAverage: [number, number, number]
+	}
+	/** Memory Values in Bytes, `buffers`, `cached` and swap are `0` without `/proc/meminfo` */ memory: {
+		total: number
+		free: number
+		available: number
+		used: number
+		buffers: number
+		cached: number
+		swapTotal: number
+		swapFree: number
+		swapUsed: number
+	}
+	/** Disk Usage per Mount in Bytes, always empty on Node.js < 18.15 (no `fs.statfs`) */ disks: {
+		mount: string
+		device: string
+		type: string
+		total: number
+		free: number
+		available: number
+		used: number
+	}[]
+	/** Network Interface Counters from `/proc/net/dev` */ network: {
+		name: string
+		rxBytes: number
+		rxPackets: number
+		rxErrors: number
+		rxDropped: number
+		txBytes: number
+		txPackets: number
+		txErrors: number
+		txDropped: number
+	}[]
+	process: {
+		pid: number
+		/** The Uptime of the Process in seconds */ uptime: number
+		/** Memory Values in Bytes */ rss: number
+		heapTotal: number
+		heapUsed: number
+		external: number
+		arrayBuffers: number
+		/** Event Loop Delay during the Capture in ms */ eventLoopLag: {
+			mean: number
+			max: number
+			p99: number
+		}
+	}
+	/** The Uptime of the System in seconds */ uptime: number
+}
+
+/**
+ * Convert an Event Loop Delay from the Histogram (ns) to the Lag in ms, excluding the Resolution
+*/ function loopDelay(value: number, resolution: number): number {
+	return isNaN(value) ? 0 : number.round(Math.max(value / 1e6 - resolution, 0), 2)
+}
+
+function coreTimes() {
+	return os.cpus().map((cpu) => ({
+		model: cpu.model,
+		speed: cpu.speed,
+		idle: cpu.times.idle,
+		total: Object.values(cpu.times).reduce((a, b) => a + b, 0)
+	}))
+}
+
+async function readProc(file: string): Promise<string | null> {
+	try {
+		return await fs.promises.readFile(file, 'utf8')
+	} catch {
+		return null
+	}
+}
+
+async function memorySnapshot(): Promise<SystemSnapshot['memory']> {
+	const content = await readProc('/proc/meminfo')
+
+	if (!content) {
+		const total = os.totalmem(), free = os.freemem()
+
+		return { total, free, available: free, used: total - free, buffers: 0, cached: 0, swapTotal: 0, swapFree: 0, swapUsed: 0 }
+	}
+
+	const values: Record<string, number> = {}
+	for (const line of content.split('\n')) {
+		const match = line.match(/^(\w+(?:\(\w+\))?):\s+(\d+)(?:\s+kB)?$/)
+		if (match) values[match[1]] = size(parseInt(match[2])).kb()
+	}
+
+	const total = values.MemTotal ?? os.totalmem(),
+		free = values.MemFree ?? os.freemem(),
+		buffers = values.Buffers ?? 0,
+		cached = (values.Cached ?? 0) + (values.SReclaimable ?? 0),
+		swapTotal = values.SwapTotal ?? 0,
+		swapFree = values.SwapFree ?? 0
+
+	return {
+		total, free, buffers, cached, swapTotal, swapFree,
+		available: values.MemAvailable ?? free + buffers + cached,
+		used: total - free - buffers - cached,
+		swapUsed: swapTotal - swapFree
+	}
+}
+
+async function diskSnapshot(): Promise<SystemSnapshot['disks']> {
+	if (typeof fs.promises.statfs !== 'function') return []
+
+	const content = await readProc('/proc/mounts'),
+		mounts = content
+			? content.split('\n').filter(Boolean).map((line) => line.split(' ')).map(([ device, mount, type ]) => ({ device, mount: mount.replace(/\\040/g, ' '), type }))
+			: [{ device: '', mount: os.platform() === 'win32' ? process.cwd().slice(0, 3) : '/', type: '' }]
+
+	const disks: SystemSnapshot['disks'] = [],
+		seen = new Set<string>()
+
+	for (const { device, mount, type } of mounts) {
+		if (seen.has(mount)) continue
+		seen.add(mount)
+
+		try {
+			const stats = await fs.promises.statfs(mount)
+			if (!stats.blocks) continue
+
+			disks.push({
+				mount, device, type,
+				total: stats.blocks * stats.bsize,
+				free: stats.bfree * stats.bsize,
+				available: stats.bavail * stats.bsize,
+				used: (stats.blocks - stats.bfree) * stats.bsize
+			})
+		} catch { }
+	}
+
+	return disks
+}
+
+async function networkSnapshot(): Promise<SystemSnapshot['network']> {
+	const content = await readProc('/proc/net/dev')
+	if (!content) return []
+
+	return content.split('\n').slice(2).filter((line) => line.includes(':')).map((line) => {
+		const [ name, counters ] = line.split(':'),
+			values = counters.trim().split(/\s+/).map((value) => parseInt(value))
+
+		return {
+			name: name.trim(),
+			rxBytes: values[0], rxPackets: values[1], rxErrors: values[2], rxDropped: values[3],
+			txBytes: values[8], txPackets: values[9], txErrors: values[10], txDropped: values[11]
+		}
+	})
+}
+
+/**
+ * Take a Snapshot of the Systems CPU, Memory, Disk, Network and Process Metrics
+ * 
+ * CPU Usage and Event Loop Delay are measured over `captureTime`, all Sizes are in Bytes.
+ * Memory, Disk and Network Details are read from `/proc` and fall back to `os` (or empty Arrays) on other Platforms.
+ * Disk Usage requires `fs.statfs` (Node.js 18.15+), on older Versions `disks` is always empty.
+ * @example
+ * ```
+ * import { system, size } from "@rjweb/utils"
+ * 
+ * const snapshot = await system.snapshot()
+ * 
+ * snapshot.cpu.usage // 3.76
+ * snapshot.cpu.cores // [{ model: 'AMD Ryzen 9 5900X', speed: 3700, usage: 5.12 }, ...]
+ * snapshot.memory.used > size(8).gb() // true
+ * snapshot.disks // [{ mount: '/', device: '/dev/nvme0n1p2', type: 'ext4', total: 502392610816, ... }]
+ * snapshot.process.eventLoopLag // { mean: 0.21, max: 1.5, p99: 1.5 }
+ * ```
+ * @since 1.13.0
+ * @supports nodejs
+ * @default captureTime = 250
+*/ export async function snapshot(captureTime: number = 250): Promise<SystemSnapshot> {
+	const startTimes = coreTimes(),
+		histogram = monitorEventLoopDelay({ resolution: 10 })
+
+	histogram.enable()
+	const [ memory, disks, network ] = await Promise.all([
+		memorySnapshot(),
+		diskSnapshot(),
+		networkSnapshot(),
+		new Promise((resolve) => setTimeout(resolve, captureTime))
+	])
+	histogram.disable()
+
+	let totalIdle = 0, totalTick = 0
+
+	const cores = coreTimes().map((core, i) => {
+		const idle = core.idle - (startTimes[i]?.idle ?? 0),
+			total = core.total - (startTimes[i]?.total ?? 0)
+
+		totalIdle += idle
+		totalTick += total
+
+		return { model: core.model, speed: core.speed, usage: total ? number.round(100 - (100 * idle / total), 2) : 0 }
+	})
+
+	const memoryUsage = process.memoryUsage(),
+		toMs = (value: number) => loopDelay(value, 10)
+
+	return {
+		cpu: {
+			usage: totalTick ? number.round(100 - (100 * totalIdle / totalTick), 2) : 0,
+			cores,
+			loadAverage: os.loadavg() as [number, number, number]
+		},
+		memory, disks, network,
+		process: {
+			pid: process.pid,
+			uptime: process.uptime(),
+			rss: memoryUsage.rss,
+			heapTotal: memoryUsage.heapTotal,
+			heapUsed: memoryUsage.heapUsed,
+			external: memoryUsage.external,
+			arrayBuffers: memoryUsage.arrayBuffers,
+			eventLoopLag: {
+				mean: toMs(histogram.mean),
+				max: toMs(histogram.max),
+				p99: toMs(histogram.percentile(99))
+			}
+		},
+		uptime: os.uptime()
+	}
+}
+
+export type MonitorMetric = 'cpu' | 'memory' | 'eventLoopLag' | 'heapUsed' | 'rss'
+
+export type MonitorSample = {
+	/** When the Sample was taken (ms since epoch) */ time: number
+	/** The CPU Usage in % */ cpu: number
+	/** The System Memory Usage in % */ memory: number
+	/** The mean Event Loop Lag since the last Sample in ms */ eventLoopLag: number
+	/** The used Heap of this Process in Bytes */ heapUsed: number
+	/** The Resident Set Size of this Process in Bytes */ rss: number
+}
+
+export type MonitorStats = {
+	current: number
+	average: number
+	median: number
+	p90: number
+	p99: number
+	min: number
+	max: number
+}
+
+export type MonitorAlert = {
+	/** The Metric that crossed its Threshold */ metric: MonitorMetric
+	/** Whether the Threshold was exceeded or the Metric recovered */ state: 'exceeded' | 'recovered'
+	/** The current Value */ value: number
+	/** The configured Threshold */ threshold: number
+	/** The Sample that triggered the Alert */ sample: MonitorSample
+}
+
+/**
+ * A Monitor that samples CPU, Memory and Event Loop Metrics on an Interval and keeps a rolling Window
+ * 
+ * The Interval Timer is unref'd and does not keep the Process alive. Alerts are edge triggered, they fire once
+ * when a Metric exceeds its Threshold and once when it recovers.
+ * @example
+ * ```
+ * import { system, size } from "@rjweb/utils"
+ * 
+ * const monitor = new system.Monitor({
+ *   interval: 1000,
+ *   window: 60,
+ *   thresholds: { cpu: 90, rss: size(1).gb() }
+ * })
+ * 
+ * monitor.alert((alert) => console.warn(`${alert.metric} ${alert.state} (${alert.value})`))
+ * 
+ * monitor.stats().cpu // { current: 3.76, average: 4.2, median: 3.9, p90: 7.1, p99: 12.3, min: 1.2, max: 12.3 }
+ * monitor.stop()
+ * ```
+ * @since 1.13.0
+ * @supports nodejs
+*/ export class Monitor {
+	private options: {
+		interval: number
+		window: number
+		thresholds: Partial<Record<MonitorMetric, number>>
+	}
+
+	private window: MonitorSample[] = []
+	private exceeded = new Set<MonitorMetric>()
+	private timer: NodeJS.Timeout | null = null
+	private histogram = monitorEventLoopDelay({ resolution: 10 })
+	private lastTimes = cpuAverage()
+	private sampling = false
+	private onAlert: null | ((alert: MonitorAlert) => Promise<any> | any) = null
+	private onSample: null | ((sample: MonitorSample) => Promise<any> | any) = null
+
+	/**
+	 * Create a new Monitor, sampling starts immediately
+	 * @since 1.13.0
+	*/ constructor(options?: {
+		/**
+		 * The Interval between Samples in ms
+		 * @default 1000
+		 * @since 1.13.0
+		*/ interval?: number
+		/**
+		 * The Amount of Samples kept in the rolling Window
+		 * @default 60
+		 * @since 1.13.0
+		*/ window?: number
+		/**
+		 * Thresholds per Metric that trigger Alerts when exceeded
+		 * @default {}
+		 * @since 1.13.0
+		*/ thresholds?: Partial<Record<MonitorMetric, number>>
+	}) {
+		this.options = {
+			interval: options?.interval ?? 1000,
+			window: Math.max(options?.window ?? 60, 1),
+			thresholds: options?.thresholds ?? {}
+		}
+
+		this.start()
+	}
+
+	/**
+	 * Callback for when a Metric exceeds or recovers from its Threshold
+	 * @since 1.13.0
+	*/ public alert(callback: (alert: MonitorAlert) => Promise<any> | any): this {
+		this.onAlert = callback
+
+		return this
+	}
+
+	/**
+	 * Callback for every new Sample
+	 * @since 1.13.0
+	*/ public sample(callback: (sample: MonitorSample) => Promise<any> | any): this {
+		this.onSample = callback
+
+		return this
+	}
+
+	/**
+	 * Start sampling again after the Monitor was stopped
+	 * @since 1.13.0
+	*/ public start(): this {
+		if (this.timer) return this
+
+		this.histogram.reset()
+		this.histogram.enable()
+		this.lastTimes = cpuAverage()
+
+		this.timer = setInterval(() => this.takeSample(), this.options.interval)
+		this.timer.unref()
+
+		return this
+	}
+
+	/**
+	 * Stop sampling, the collected Samples are kept
+	 * @since 1.13.0
+	*/ public stop(): this {
+		if (this.timer) clearInterval(this.timer)
+		this.timer = null
+
+		this.histogram.disable()
+
+		return this
+	}
+
+	/**
+	 * Whether the Monitor is currently sampling
+	 * @since 1.13.0
+	*/ public get running(): boolean {
+		return this.timer !== null
+	}
+
+	/**
+	 * Get all Samples of the rolling Window, oldest first
+	 * @since 1.13.0
+	*/ public samples(): MonitorSample[] {
+		return Array.from(this.window)
+	}
+
+	/**
+	 * Get the Statistics of all Metrics over the rolling Window, `null` if no Sample was taken yet
+	 * @since 1.13.0
+	*/ public stats(): Record<MonitorMetric, MonitorStats> | null {
+		if (!this.window.length) return null
+
+		const metrics: MonitorMetric[] = [ 'cpu', 'memory', 'eventLoopLag', 'heapUsed', 'rss' ]
+
+		return Object.fromEntries(metrics.map((metric) => {
+			const values = this.window.map((sample) => sample[metric]),
+				sorted = Array.from(values).sort((a, b) => a - b),
+				percentile = (p: number) => sorted[Math.min(Math.ceil(p / 100 * sorted.length) - 1, sorted.length - 1)]
+
+			return [ metric, {
+				current: values[values.length - 1],
+				average: number.round(array.average(values), 2),
+				median: number.round(array.median(Array.from(values)), 2),
+				p90: percentile(90),
+				p99: percentile(99),
+				min: sorted[0],
+				max: sorted[sorted.length - 1]
+			} ]
+		})) as Record<MonitorMetric, MonitorStats>
+	}
+
+	private async takeSample() {
+		if (this.sampling) return
+		this.sampling = true
+
+		try {
+			const times = cpuAverage(),
+				idle = times.idle - this.lastTimes.idle,
+				total = times.total - this.lastTimes.total,
+				memory = await memorySnapshot(),
+				memoryUsage = process.memoryUsage()
+
+			this.lastTimes = times
+
+			const sample: MonitorSample = {
+				time: Date.now(),
+				cpu: total ? number.round(100 - (100 * idle / total), 2) : 0,
+				memory: number.round(100 * (memory.total - memory.available) / memory.total, 2),
+				eventLoopLag: loopDelay(this.histogram.mean, 10),
+				heapUsed: memoryUsage.heapUsed,
+				rss: memoryUsage.rss
+			}
+
+			this.histogram.reset()
+			if (!this.timer) return
+
+			this.window.push(sample)
+			if (this.window.length > this.options.window) this.window.splice(0, this.window.length - this.options.window)
+
+			if (this.onSample) try {
+				await Promise.resolve(this.onSample(sample))
+			} catch { }
+
+			for (const [ metric, threshold ] of Object.entries(this.options.thresholds) as [MonitorMetric, number][]) {
+				const value = sample[metric],
+					exceeded = value > threshold
+
+				if (exceeded === this.exceeded.has(metric)) continue
+
+				if (exceeded) this.exceeded.add(metric)
+				else this.exceeded.delete(metric)
+
+				if (this.onAlert) try {
+					await Promise.resolve(this.onAlert({ metric, state: exceeded ? 'exceeded' : 'recovered', value, threshold, sample }))
+				} catch { }
+			}
+		} finally {
+			this.sampling = false
+		}
+	}
 }
\ No newline at end of file